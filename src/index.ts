@@ -4,9 +4,14 @@ export interface Env {
   // Secrets
   NAVER_CLIENT_ID: string;
   NAVER_CLIENT_SECRET: string;
+  NAVER_KEYS?: string;       // 추가 키 "id:secret" (쉼표/줄바꿈 구분) — 한도 소진/오류 시 순서대로 전환
   TELEGRAM_BOT_TOKEN: string;
   TELEGRAM_CHAT_ID: string;  // 본채널
   ADMIN_CHAT_ID: string;     // 관리자 리포트 채널/개인
+  ADMIN_USER_IDS?: string;   // 관리자 채팅 버튼을 누를 수 있는 사용자 id (쉼표 구분, 없으면 ADMIN_CHAT_ID 개인 채팅 본인만)
+  TELEGRAM_WEBHOOK_SECRET?: string; // setWebhook secret_token (없으면 /telegram 전부 거부)
+  ADMIN_TOKEN?: string;       // 관리자 라우트 Bearer 토큰 (없으면 관리자 라우트 전부 거부)
+  ADMIN_LINK_SECRET?: string; // 서명 링크용 HMAC 키 (없으면 ADMIN_TOKEN 사용)
 
   // Vars (wrangler.toml [vars]) — 폴백용
   APP_NAME?: string;
@@ -17,6 +22,11 @@ export interface Env {
   MAX_LOOPS?: string;           // "3"
   MIN_SEND_THRESHOLD?: string;  // "1"
   FORCE_HOURS?: string;         // "0,2,4,6,8,10,12,14,16,18,20,22"
+  SEEN_TTL_HOURS?: string;      // "72"
+  LATE_GRACE_HOURS?: string;    // "6"
+  CLUSTER_THRESHOLD?: string;   // "0.35"
+  CLUSTER_STOP_PREFIXES?: string; // 제목 앞머리 말머리 (포토, 오피셜 …)
+  PRIORITY_KEYWORDS?: string;   // 즉시 속보 규칙 (오피셜, 감독 선임 …)
 
   // KV
   FCANEWS_KV: KVNamespace;
@@ -29,15 +39,18 @@ const pad = (n: number) => String(n).padStart(2, "0");
 const fmtUTC = (d: Date) =>
   `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())} ${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}:${pad(d.getUTCSeconds())}`;
 
-// HH:MM:SS (KST 기준)만 뽑는 헬퍼 추가
-function fmtKSTClockLabel(dUTC: Date) {
-  const k = toKST(dUTC);
-  return `${pad(k.getUTCHours())}:${pad(k.getUTCMinutes())}:${pad(k.getUTCSeconds())}`;
+// HH:MM:SS (schedule.timezone 기준)만 뽑는 헬퍼
+function fmtClockLabel(dUTC: Date, timeZone: string) {
+  const c = localClock(dUTC, timeZone);
+  return `${pad(c.hour)}:${pad(c.minute)}:${pad(c.second)}`;
 }
 
-const KV_LAST_SENT = "last_sent_target_iso";      // 짝수시 정각(UTC) ISO
+const KV_LAST_SENT = "last_sent_target_iso";      // 마지막 발송 회차(cron 예정 시각, UTC ISO)
+const KV_LAST_CRON = "sched:cron";                // 마지막 실행의 cron 표현식 (헬스체크 NEXT / 매치데이 회차 계산용)
+const DEFAULT_CRON = "0 1-23/2 * * *";            // 아직 실행 기록이 없을 때 가정하는 cron (wrangler.toml: KST 짝수시 정각)
 const KV_LAST_CHECKED = "last_checked_time_iso";  // 마지막 본 기사 시각(UTC) ISO
 const KV_CFG = "cfg:APP";                         // 설정 JSON 저장 키
+const KV_SEEN = "seen:set";                       // 기사 중복 판정용 seen-set JSON
 
 // 줄바꿈/쉼표/세미콜론 구분 + 주석(#...) 무시 + 양끝 따옴표 제거
 function parseListText(raw?: string): string[] {
@@ -83,12 +96,13 @@ function norm(s: string): string {
   }
 }
 
-// 텔레그램 HTML 모드용 이스케이프: 큰따옴표(")는 그대로 둔다
+// 본문과 속성값(href="…") 모두에 쓰므로 큰따옴표까지 이스케이프
 function escapeHtml(s: string) {
   return s
     .replace(/&/g, "&amp;")
     .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;");
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
 }
 
 // 간단한 HTML 엔터티 디코더 (&quot;, &#39; 등 처리)
@@ -137,19 +151,55 @@ function parsePubUTC(pub: string): Date | null {
 }
 
 // 기사 클러스터링용 타입
-type ArticleItem = { title: string; link: string; pubUTC: Date };
+// kw: 포함 규칙 가중치 합, domain/press: 원문 기준 언론사 도메인/표시 이름
+type ArticleItem = {
+  title: string; link: string; pubUTC: Date; kw?: number; domain?: string; press?: string;
+  description?: string; // 요약문 — 수집 뒤에 거는 규칙(속보/팔로우)의 desc:/both: 범위용
+};
 type ArticleCluster = {
   repTitle: string;
   articles: ArticleItem[];
   latestPubUTC: Date;
+  joinSim: Record<string, number>; // link → 합류 당시 유사도 (미리보기 튜닝용)
+  score?: number;                  // 관련도 점수 (rankClusters에서 채움)
+};
+
+type ClusterOptions = {
+  threshold: number;      // 0~1, 클수록 더 비슷할 때만 묶임
+  stopPrefixes: string[]; // 비교 전에 떼어낼 말머리
+  showScores?: boolean;   // 다이제스트에 유사도 표기 (관리자 미리보기)
 };
 
+const DEFAULT_STOP_PREFIXES = ["포토", "오피셜", "속보", "단독", "종합", "영상", "현장", "인터뷰", "기자회견"];
+const DEFAULT_CLUSTER_OPTIONS: ClusterOptions = { threshold: 0.35, stopPrefixes: DEFAULT_STOP_PREFIXES };
+
 // 제목 토큰화 (한글/영문/숫자만 남기고 분리)
 function tokenizeTitleForCluster(title: string): string[] {
   const cleaned = norm(title).replace(/[^0-9a-z\uac00-\ud7a3]+/g, " ");
   return cleaned.split(/\s+/).filter(Boolean);
 }
 
+// 앞머리 말머리 제거: "[포토] …", "【오피셜】 …", "(종합) …", "속보 …" 반복 처리
+function stripStopPrefixes(title: string, prefixes: string[]): string {
+  let t = norm(title);
+  const words = new Set(prefixes.map(norm).filter(Boolean));
+  for (;;) {
+    const m = t.match(/^[\[【(<]\s*([^\]】)>]+?)\s*[\]】)>]\s*/) ?? t.match(/^(\S+)\s+/);
+    if (!m || !words.has(m[1])) return t;
+    t = t.slice(m[0].length);
+  }
+}
+
+// 한글 제목 비교용 특징: 토큰별 문자 bigram (조사 차이 "안양이/안양은"에도 "안양"이 겹침)
+function titleBigrams(title: string, stopPrefixes: string[]): string[] {
+  const grams: string[] = [];
+  for (const tok of tokenizeTitleForCluster(stripStopPrefixes(title, stopPrefixes))) {
+    if (tok.length === 1) { grams.push(tok); continue; }
+    for (let i = 0; i < tok.length - 1; i++) grams.push(tok.slice(i, i + 2));
+  }
+  return grams;
+}
+
 // Jaccard 유사도 (토큰 집합 기준)
 function jaccardSimilarity(a: string[], b: string[]): number {
   if (!a.length || !b.length) return 0;
@@ -177,37 +227,38 @@ function shortHostname(urlStr: string): string {
 }
 
 // 기사들을 제목 유사도로 묶기
-function clusterArticles(articles: ArticleItem[]): ArticleCluster[] {
+//  - 클러스터의 모든 기사와의 평균 유사도로 비교 (대표 제목 하나에만 의존하지 않음)
+//  - 대표 제목은 다른 기사들과 가장 비슷한(중심에 있는) 기사
+function clusterArticles(articles: ArticleItem[], opts: ClusterOptions = DEFAULT_CLUSTER_OPTIONS): ArticleCluster[] {
   const clusters: ArticleCluster[] = [];
-  const tokenCache = new Map<string, string[]>();
-  const getTokens = (title: string) => {
-    let t = tokenCache.get(title);
-    if (!t) {
-      t = tokenizeTitleForCluster(title);
-      tokenCache.set(title, t);
+  const gramCache = new Map<string, string[]>();
+  const getGrams = (title: string) => {
+    let g = gramCache.get(title);
+    if (!g) {
+      g = titleBigrams(title, opts.stopPrefixes);
+      gramCache.set(title, g);
     }
-    return t;
+    return g;
   };
-
-  const THRESHOLD = 0.5; // 0~1, 클수록 더 비슷할 때만 묶임
+  const sim = (a: ArticleItem, b: ArticleItem) => jaccardSimilarity(getGrams(a.title), getGrams(b.title));
 
   for (const art of articles) {
-    const tokens = getTokens(art.title);
     let bestIdx = -1;
     let bestSim = 0;
 
     for (let i = 0; i < clusters.length; i++) {
-      const repTokens = getTokens(clusters[i].repTitle);
-      const sim = jaccardSimilarity(tokens, repTokens);
-      if (sim > bestSim) {
-        bestSim = sim;
+      const members = clusters[i].articles;
+      const avg = members.reduce((acc, m) => acc + sim(art, m), 0) / members.length;
+      if (avg > bestSim) {
+        bestSim = avg;
         bestIdx = i;
       }
     }
 
-    if (bestIdx >= 0 && bestSim >= THRESHOLD) {
+    if (bestIdx >= 0 && bestSim >= opts.threshold) {
       const cluster = clusters[bestIdx];
       cluster.articles.push(art);
+      cluster.joinSim[art.link] = bestSim;
       if (art.pubUTC.getTime() > cluster.latestPubUTC.getTime()) {
         cluster.latestPubUTC = art.pubUTC;
       }
@@ -216,10 +267,24 @@ function clusterArticles(articles: ArticleItem[]): ArticleCluster[] {
         repTitle: art.title,
         articles: [art],
         latestPubUTC: art.pubUTC,
+        joinSim: {},
       });
     }
   }
 
+  // 대표 제목: 다른 멤버들과의 유사도 합이 가장 큰 기사
+  for (const c of clusters) {
+    if (c.articles.length < 3) continue; // 2건 이하는 중심성이 같음 → 먼저 들어온 제목 유지
+    let best = -1;
+    for (const a of c.articles) {
+      const total = c.articles.reduce((acc, b) => acc + (a === b ? 0 : sim(a, b)), 0);
+      if (total > best) {
+        best = total;
+        c.repTitle = a.title;
+      }
+    }
+  }
+
   // 클러스터를 최신 기사 시각 기준 내림차순 정렬
   clusters.sort((a, b) => b.latestPubUTC.getTime() - a.latestPubUTC.getTime());
   // 각 클러스터 내부도 최신순으로 정렬
@@ -230,45 +295,180 @@ function clusterArticles(articles: ArticleItem[]): ArticleCluster[] {
   return clusters;
 }
 
-// 클러스터링된 기사 리스트를 텔레그램용 라인 배열로 변환
-function buildClusteredArticleLines(collected: ArticleItem[]): string[] {
-  if (!collected.length) {
-    return ["— 후보 없음 —"];
+/* ───────────────────────────── scoring ───────────────────────────── */
+// 클러스터 점수 = 키워드 가중치 × 매체 가중치 × (1 + 크기 가중 × log2(기사 수)) × 최신성
+type ScoringConfig = {
+  keyword_weights: Record<string, number>;   // 포함 규칙(원문) → 가중치, 없으면 1
+  publisher_weights: Record<string, number>; // 언론사 도메인(원문 기준 shortHostname) → 가중치, 없으면 1
+  size_weight: number;
+  recency_half_life_hours: number; // 이 시간이 지나면 최신성 0.5배
+  max_clusters: number;            // 다이제스트 최대 클러스터 수 (0 = 제한 없음)
+  min_score: number;               // 미만이면 다이제스트에서 제외
+  alert_score: number;             // 이상이면 MIN_SEND_THRESHOLD 미만이어도 발송 (0 = 끔)
+};
+
+const DEFAULT_SCORING: ScoringConfig = {
+  keyword_weights: {},
+  publisher_weights: {},
+  size_weight: 0.5,
+  recency_half_life_hours: 12,
+  max_clusters: 0,
+  min_score: 0,
+  alert_score: 0,
+};
+
+// 가중치 맵: 키는 norm() 기준, 숫자가 아닌 값은 버림
+function parseWeights(raw: any): Record<string, number> {
+  const out: Record<string, number> = {};
+  if (raw && typeof raw === "object" && !Array.isArray(raw)) {
+    for (const [k, v] of Object.entries(raw)) {
+      const n = Number(v);
+      if (Number.isFinite(n)) out[norm(k)] = n;
+    }
   }
+  return out;
+}
 
-  const clusters = clusterArticles(collected);
-  const lines: string[] = [];
+function parseScoring(raw: any): ScoringConfig {
+  const d = DEFAULT_SCORING;
+  if (!raw || typeof raw !== "object") return d;
+  return {
+    keyword_weights: parseWeights(raw.keyword_weights),
+    publisher_weights: parseWeights(raw.publisher_weights),
+    size_weight: parseNumber(raw.size_weight, d.size_weight, 0, 10),
+    recency_half_life_hours: parseNumber(raw.recency_half_life_hours, d.recency_half_life_hours, 0.5, 24 * 7),
+    max_clusters: parseNumber(raw.max_clusters, d.max_clusters, 0, 100),
+    min_score: parseNumber(raw.min_score, d.min_score, 0, 1000),
+    alert_score: parseNumber(raw.alert_score, d.alert_score, 0, 1000),
+  };
+}
+
+// 기사의 키워드 점수: 맞은 포함 규칙들의 가중치 합 (포함 규칙이 없으면 1)
+function keywordScore(matched: KeywordRule[], hasRules: boolean, weights: Record<string, number>): number {
+  if (!hasRules) return 1;
+  return matched.reduce((acc, r) => acc + (weights[norm(r.src)] ?? 1), 0);
+}
+
+function scoreCluster(c: ArticleCluster, sc: ScoringConfig, nowUTC: Date): number {
+  const kw = Math.max(...c.articles.map(a => a.kw ?? 1));
+  const pub = Math.max(...c.articles.map(a => sc.publisher_weights[a.domain ?? shortHostname(a.link)] ?? 1));
+  const size = 1 + sc.size_weight * Math.log2(c.articles.length);
+  const ageHours = Math.max(0, (nowUTC.getTime() - c.latestPubUTC.getTime()) / 3600000);
+  const recency = Math.pow(0.5, ageHours / sc.recency_half_life_hours);
+  return kw * pub * size * recency;
+}
+
+// 점수 내림차순 정렬 → min_score 미만 제외 → max_clusters 만큼만
+function rankClusters(clusters: ArticleCluster[], sc: ScoringConfig, nowUTC: Date) {
+  for (const c of clusters) c.score = scoreCluster(c, sc, nowUTC);
+  const ranked = [...clusters].sort((a, b) =>
+    (b.score! - a.score!) || (b.latestPubUTC.getTime() - a.latestPubUTC.getTime())
+  );
+  const passing = ranked.filter(c => c.score! >= sc.min_score);
+  const kept = sc.max_clusters > 0 ? passing.slice(0, sc.max_clusters) : passing;
+  return { kept, dropped: ranked.filter(c => !kept.includes(c)), topScore: ranked[0]?.score ?? 0 };
+}
+
+// 수집 결과 → 다이제스트에 실을 클러스터 (묶기 + 점수 순위)
+function selectDigestClusters(collected: ArticleItem[], cfg: AppConfig, nowUTC: Date) {
+  const { kept, dropped, topScore } = rankClusters(clusterArticles(collected, clusterOptionsFrom(cfg)), cfg.scoring, nowUTC);
+  return { clusters: kept, dropped, topScore, articles: kept.flatMap(c => c.articles) };
+}
+
+// 클러스터 목록을 텔레그램용 블록(클러스터 1개 = 라인 배열)으로 변환
+function buildClusteredArticleBlocks(
+  clusters: ArticleCluster[],
+  opts: ClusterOptions = DEFAULT_CLUSTER_OPTIONS
+): string[][] {
+  if (!clusters.length) {
+    return [["— 후보 없음 —"]];
+  }
+
+  const blocks: string[][] = [];
   let idx = 1;
 
   for (const cluster of clusters) {
     const headerNo = idx++;
     const baseTitle = cluster.repTitle;
+    const lines: string[] = [];
+    const scoreLabel = opts.showScores && cluster.score !== undefined
+      ? ` <i>[점수 ${cluster.score.toFixed(2)}]</i>`
+      : "";
 
     if (cluster.articles.length === 1) {
       const art = cluster.articles[0];
-      lines.push(`${headerNo}) <b>${escapeHtml(art.title)}</b>`);
-      lines.push(`   <a href="${art.link}">🔗 기사 보기</a>`);
+      lines.push(`${headerNo}) <b>${escapeHtml(art.title)}</b>${scoreLabel}`);
+      lines.push(`   <a href="${escapeHtml(art.link)}">🔗 기사 보기</a>${art.press ? ` · ${escapeHtml(art.press)}` : ""}`);
     } else {
-      lines.push(`${headerNo}) <b>${escapeHtml(baseTitle)}</b> (${cluster.articles.length}건)`);
+      lines.push(`${headerNo}) <b>${escapeHtml(baseTitle)}</b> (${cluster.articles.length}건)${scoreLabel}`);
       for (const art of cluster.articles) {
-        const host = shortHostname(art.link);
-        const hostLabel = host || "링크";
-        lines.push(`   • ${hostLabel}: <a href="${art.link}">기사 보기</a>`);
+        const hostLabel = escapeHtml(art.press || shortHostname(art.link) || "링크");
+        const score = opts.showScores
+          ? ` <i>${art.link in cluster.joinSim ? `≈${cluster.joinSim[art.link].toFixed(2)}` : "기준"}</i>`
+          : "";
+        lines.push(`   • ${hostLabel}: <a href="${escapeHtml(art.link)}">기사 보기</a>${score}`);
       }
     }
 
-    lines.push(""); // 클러스터 간 빈 줄
+    blocks.push(lines);
   }
 
-  // 마지막 빈 줄 제거
-  if (lines.length && lines[lines.length - 1] === "") {
-    lines.pop();
-  }
+  return blocks;
+}
 
-  return lines;
+const TG_MAX_CHARS = 4096;   // 텔레그램 메시지 길이 상한
+const TG_PART_LABEL_RESERVE = 16; // "(12/12)\n" 라벨 여유
+
+// 블록들을 메시지 길이 상한에 맞춰 나눔
+//  - 블록(클러스터) 경계에서 우선 분할, 블록 하나가 넘치면 줄 단위로 분할
+//  - 각 줄은 태그가 닫힌 상태라 어디서 잘라도 <a>/<b>가 깨지지 않음
+//  - 여러 개로 나뉘면 (1/3), (2/3) … 라벨
+function paginateBlocks(blocks: string[][], limit = TG_MAX_CHARS): string[] {
+  return paginateBlockParts(blocks, limit).map(p => p.text);
+}
+
+// 위와 같되 메시지별로 첫 줄이 들어간 블록 번호도 같이 (메시지마다 버튼을 붙일 때)
+function paginateBlockParts(blocks: string[][], limit = TG_MAX_CHARS): Array<{ text: string; blocks: number[] }> {
+  const budget = limit - TG_PART_LABEL_RESERVE;
+  const parts: Array<{ text: string; blocks: number[] }> = [];
+  let cur = "";
+  let owned: number[] = [];
+
+  const append = (piece: string, sep: string, owner?: number) => {
+    if (cur && cur.length + sep.length + piece.length > budget) {
+      parts.push({ text: cur, blocks: owned });
+      cur = "";
+      owned = [];
+    }
+    cur = cur ? cur + sep + piece : piece;
+    if (owner !== undefined) owned.push(owner);
+  };
+
+  blocks.forEach((block, b) => {
+    const text = block.join("\n");
+    if (text.length <= budget) {
+      append(text, "\n\n", b);
+      return;
+    }
+    block.forEach((line, i) => append(line, i === 0 ? "\n\n" : "\n", i === 0 ? b : undefined));
+  });
+  if (cur) parts.push({ text: cur, blocks: owned });
+
+  if (parts.length <= 1) return parts;
+  return parts.map((p, i) => ({ ...p, text: `(${i + 1}/${parts.length})\n${p.text}` }));
 }
 
-// 이번 타임(짝수시 정각, KST 기준) 목표 시각 계산 → UTC로 변환
+// 다이제스트 메시지 목록 (head: 첫 메시지 맨 위에 붙일 라인들)
+function buildDigestMessages(
+  clusters: ArticleCluster[],
+  head: string[] = [],
+  opts: ClusterOptions = DEFAULT_CLUSTER_OPTIONS
+): string[] {
+  const blocks = buildClusteredArticleBlocks(clusters, opts);
+  return paginateBlocks(head.length ? [head, ...blocks] : blocks);
+}
+
+// 다음 짝수시 정각(KST) → UTC (cron 표현식을 아직 모를 때의 헬스체크 기본값)
 function computeTargetKST(fromUTC: Date) {
   const k = toKST(fromUTC);
   const t = new Date(k.getTime());
@@ -278,405 +478,4291 @@ function computeTargetKST(fromUTC: Date) {
   return { targetKST: t, targetUTC };
 }
 
-async function sendTelegram(text: string, chatId: string, env: Env) {
+/* ───────────────────────────── delivery ───────────────────────────── */
+const KV_OUTBOX = "outbox:tg";  // 최종 실패 메시지 보관함 (다음 cron에서 먼저 재전송)
+const OUTBOX_MAX = 50;          // 보관 상한 (오래된 것부터 버림)
+const SEND_MAX_ATTEMPTS = 3;
+const RETRY_AFTER_CAP_SEC = 30; // 429 retry_after 대기 상한
+
+type DeliveryResult = {
+  ok: boolean;
+  attempts: number;
+  status?: number;      // 마지막 HTTP 상태 (네트워크 오류면 없음)
+  error?: string;
+  message_id?: number;
+};
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+// 429는 retry_after 준수, 5xx/네트워크 오류는 지수 백오프, 그 외 4xx는 즉시 실패
+// extra: reply_markup 등 sendMessage 추가 필드
+async function sendTelegram(text: string, chatId: string, env: Env, extra: Record<string, unknown> = {}): Promise<DeliveryResult> {
   const url = `https://api.telegram.org/bot${env.TELEGRAM_BOT_TOKEN}/sendMessage`;
-  const res = await fetch(url, {
-    method: "POST",
-    headers: { "content-type": "application/json" },
-    body: JSON.stringify({
-      chat_id: chatId,
-      text,
-      parse_mode: "HTML",
-      disable_web_page_preview: true,
-    }),
-  });
-  if (!res.ok) {
-    const t = await res.text();
-    console.error("Telegram send failed", res.status, t);
+  let last: DeliveryResult = { ok: false, attempts: 0 };
+
+  for (let attempt = 1; attempt <= SEND_MAX_ATTEMPTS; attempt++) {
+    let waitMs = 1000 * 2 ** (attempt - 1);
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          chat_id: chatId,
+          text,
+          parse_mode: "HTML",
+          disable_web_page_preview: true,
+          ...extra,
+        }),
+      });
+      const data: any = await res.json().catch(() => null);
+      if (res.ok && data?.ok !== false) {
+        return { ok: true, attempts: attempt, status: res.status, message_id: data?.result?.message_id };
+      }
+      last = { ok: false, attempts: attempt, status: res.status, error: data?.description ?? `HTTP ${res.status}` };
+      console.error("Telegram send failed", res.status, last.error);
+
+      if (res.status === 429) {
+        const ra = Number(data?.parameters?.retry_after);
+        if (Number.isFinite(ra)) waitMs = Math.min(ra, RETRY_AFTER_CAP_SEC) * 1000;
+      } else if (res.status < 500) {
+        return last; // 잘못된 요청/권한 문제는 재시도해도 같다
+      }
+    } catch (e: any) {
+      last = { ok: false, attempts: attempt, error: String(e?.message || e) };
+      console.error("Telegram send error", last.error);
+    }
+    if (attempt < SEND_MAX_ATTEMPTS) await sleep(waitMs);
   }
+  return last;
 }
 
-/* ───────────────────────────── config loader ───────────────────────────── */
-type AppConfig = {
-  search_keywords: string[];
-  include_keywords: string[];
-  exclude_keywords: string[];
-  display_per_call: number;
-  max_loops: number;
-  min_send_threshold: number;
-  force_hours: number[]; // KST 기준 시간대(정수)
-};
+// 전달 확인 후 반영할 워터마크 (outbox 재전송 성공 시에도 적용)
+type DeliveryMarks = { lastSent?: string; lastChecked?: string };
+type OutboxItem = { chatId: string; text: string; createdAt: string; marks?: DeliveryMarks };
 
-function parseNumber(n: any, def: number, min?: number, max?: number): number {
-  let v = Number(n);
-  if (!Number.isFinite(v)) v = def;
-  if (typeof min === "number") v = Math.max(min, v);
-  if (typeof max === "number") v = Math.min(max, v);
-  return v;
+async function applyDeliveryMarks(env: Env, marks?: DeliveryMarks): Promise<void> {
+  if (!marks) return;
+  if (marks.lastSent) await env.FCANEWS_KV.put(KV_LAST_SENT, marks.lastSent);
+  if (marks.lastChecked) {
+    // 늦게 도착한 outbox 전달이 워터마크를 되돌리지 않도록
+    const cur = await env.FCANEWS_KV.get(KV_LAST_CHECKED);
+    if (!cur || cur < marks.lastChecked) await env.FCANEWS_KV.put(KV_LAST_CHECKED, marks.lastChecked);
+  }
 }
 
-async function loadConfig(env: Env): Promise<AppConfig> {
-  // KV에 단일 텍스트로 저장된 키들 (운영자가 대시보드에서 수정 가능)
-  const kvSearch = await env.FCANEWS_KV.get("SEARCH_KEYWORDS");
-  const kvInclude = await env.FCANEWS_KV.get("INCLUDE_KEYWORDS");
-  const kvExclude = await env.FCANEWS_KV.get("EXCLUDE_KEYWORDS");
-  const kvDisplay = await env.FCANEWS_KV.get("DISPLAY_PER_CALL");
-  const kvMaxLoops = await env.FCANEWS_KV.get("MAX_LOOPS");
-  const kvMinSend = await env.FCANEWS_KV.get("MIN_SEND_THRESHOLD");
-  const kvForce = await env.FCANEWS_KV.get("FORCE_HOURS");
-
-  // 1) cfg:APP(JSON) 우선
+async function loadOutbox(env: Env): Promise<OutboxItem[]> {
   try {
-    const raw = await env.FCANEWS_KV.get(KV_CFG);
-    if (raw) {
-      const cfg = JSON.parse(raw);
-      return {
-        search_keywords: Array.isArray(cfg.search_keywords)
-          ? cfg.search_keywords
-          : pickList(kvSearch, env.SEARCH_KEYWORDS),
-        include_keywords: Array.isArray(cfg.include_keywords)
-          ? cfg.include_keywords
-          : pickList(kvInclude, env.INCLUDE_KEYWORDS),
-        exclude_keywords: Array.isArray(cfg.exclude_keywords)
-          ? cfg.exclude_keywords
-          : pickList(kvExclude, env.EXCLUDE_KEYWORDS),
-        display_per_call: parseNumber(
-          cfg.display_per_call ?? kvDisplay ?? env.DISPLAY_PER_CALL ?? "30",
-          30, 1, 100
-        ),
-        max_loops: parseNumber(
-          cfg.max_loops ?? kvMaxLoops ?? env.MAX_LOOPS ?? "3",
-          3, 1, 10
-        ),
-        min_send_threshold: parseNumber(
-          cfg.min_send_threshold ?? kvMinSend ?? env.MIN_SEND_THRESHOLD ?? "1",
-          1, 0, 100
-        ),
-        force_hours: Array.isArray(cfg.force_hours)
-          ? cfg.force_hours
-          : pickNumList(kvForce, env.FORCE_HOURS, "0,2,4,6,8,10,12,14,16,18,20,22"),
-      };
-    }
+    const raw = await env.FCANEWS_KV.get(KV_OUTBOX);
+    return raw ? JSON.parse(raw) : [];
   } catch (e) {
-    console.error("loadConfig KV cfg:APP parse error", e);
+    console.error("outbox parse error", e);
+    return [];
   }
-
-  // 2) 개별 텍스트 키 → 없으면 vars 폴백
-  return {
-    search_keywords: pickList(kvSearch, env.SEARCH_KEYWORDS),
-    include_keywords: pickList(kvInclude, env.INCLUDE_KEYWORDS),
-    exclude_keywords: pickList(kvExclude, env.EXCLUDE_KEYWORDS),
-    display_per_call: parseNumber(kvDisplay ?? env.DISPLAY_PER_CALL ?? "30", 30, 1, 100),
-    max_loops: parseNumber(kvMaxLoops ?? env.MAX_LOOPS ?? "3", 3, 1, 10),
-    min_send_threshold: parseNumber(kvMinSend ?? env.MIN_SEND_THRESHOLD ?? "1", 1, 0, 100),
-    force_hours: pickNumList(kvForce, env.FORCE_HOURS, "0,2,4,6,8,10,12,14,16,18,20,22"),
-  };
 }
 
-/* ───────────────────────── NAVER fetch + filter ───────────────────────── */
-async function searchRecentNews(env: Env) {
-  const cfg = await loadConfig(env);
-
-  const CLIENT_ID = env.NAVER_CLIENT_ID;
-  const CLIENT_SECRET = env.NAVER_CLIENT_SECRET;
-  const DISPLAY = cfg.display_per_call;
-  const MAX_LOOPS = cfg.max_loops;
-
-  const base = "https://openapi.naver.com/v1/search/news.json";
-  const query = encodeURIComponent(cfg.search_keywords.join(" ").trim());
-  const headers: Record<string, string> = {
-    "X-Naver-Client-Id": CLIENT_ID,
-    "X-Naver-Client-Secret": CLIENT_SECRET,
-    "User-Agent": "Mozilla/5.0 (compatible; fcanews/1.0)",
-  };
+// 나중에 다시 보내면 될 수 있는 실패만 outbox로 (429, 5xx, 네트워크 오류)
+//   그 외 4xx(본문 파싱 오류, 길이 초과, 봇 차단 …)는 재전송해도 같으므로 보관하지 않음
+const isRetryable = (res: DeliveryResult) => !res.status || res.status === 429 || res.status >= 500;
 
-  const lastCheckedUTC = await env.FCANEWS_KV.get(KV_LAST_CHECKED);
-  const lastChecked = lastCheckedUTC ? new Date(lastCheckedUTC) : null;
+async function saveOutbox(env: Env, items: OutboxItem[]): Promise<void> {
+  if (!items.length) await env.FCANEWS_KV.delete(KV_OUTBOX);
+  else await env.FCANEWS_KV.put(KV_OUTBOX, JSON.stringify(items.slice(-OUTBOX_MAX)));
+}
 
-  const seen = new Set<string>();
-  const collected: Array<{ title: string; link: string; pubUTC: Date }> = [];
-  const loopReports: Array<{
-    call_no: number; fetched: number; time_filtered: number;
-    title_include_fail: number; title_exclude_hit: number; title_include_pass: number;
-  }> = [];
-  const pubTimesUTC: Date[] = [];
+// 전송 → 성공 시 워터마크 반영, 재시도 가능한 최종 실패만 outbox 보관
+async function deliver(
+  text: string,
+  chatId: string,
+  env: Env,
+  marks?: DeliveryMarks
+): Promise<DeliveryResult & { parked?: boolean }> {
+  const res = await sendTelegram(text, chatId, env);
+  if (res.ok) {
+    await applyDeliveryMarks(env, marks);
+    return res;
+  }
+  if (!isRetryable(res)) return res;
+  const box = await loadOutbox(env);
+  box.push({ chatId, text, createdAt: new Date().toISOString(), marks });
+  await saveOutbox(env, box);
+  return { ...res, parked: true };
+}
 
-  let stopDueToOld = false;
+type MultiDeliveryResult = DeliveryResult & {
+  parked?: boolean;
+  parts: number;
+  delivered: number;
+  message_ids: number[];
+  dropped?: number;    // 재시도해도 안 되는 오류(4xx)로 버린 파트 수
+  followups?: number;  // 새 메시지 대신 이전 메시지에 답장/수정한 클러스터 수
+};
 
-  for (let page = 1; page <= MAX_LOOPS; page++) {
-    const start = (page - 1) * DISPLAY + 1;
-    const url = `${base}?query=${query}&display=${DISPLAY}&start=${start}&sort=date`;
+// 분할 메시지 순서대로 전송: 재시도 가능한 실패가 나면 그 뒤 파트까지 모두 outbox로 (순서 유지)
+//   재시도해도 안 되는 파트는 버리고(dropped) 나머지 파트를 계속 보냄
+// 워터마크는 마지막 파트에만 실어 전체 전달이 확인된 뒤에 반영 (버린 파트가 있으면 반영하지 않음)
+async function deliverAll(
+  texts: string[],
+  chatId: string,
+  env: Env,
+  marks?: DeliveryMarks
+): Promise<MultiDeliveryResult> {
+  const out: MultiDeliveryResult = { ok: true, attempts: 0, parts: texts.length, delivered: 0, message_ids: [] };
 
-    const r = await fetch(url, { method: "GET", headers, cf: { cacheTtl: 0 } });
-    if (!r.ok) {
-      console.error("NAVER error", r.status, await r.text());
-      break;
+  for (let i = 0; i < texts.length; i++) {
+    const isLast = i === texts.length - 1;
+    const res = await sendTelegram(texts[i], chatId, env);
+    out.attempts += res.attempts;
+    out.status = res.status;
+    if (res.ok || !isRetryable(res)) {
+      if (res.ok) {
+        out.delivered++;
+        if (res.message_id) out.message_ids.push(res.message_id);
+      } else {
+        out.ok = false;
+        out.error = res.error;
+        out.dropped = (out.dropped ?? 0) + 1;
+      }
+      if (isLast && !out.dropped) await applyDeliveryMarks(env, marks);
+      continue;
     }
-    const data = await r.json();
-    const items: any[] = data?.items || [];
-    if (!items.length) break;
 
-    let fetched = items.length, time_filtered = 0, title_include_fail = 0, title_exclude_hit = 0;
+    const box = await loadOutbox(env);
+    const createdAt = new Date().toISOString();
+    for (let j = i; j < texts.length; j++) {
+      box.push({ chatId, text: texts[j], createdAt, marks: j === texts.length - 1 && !out.dropped ? marks : undefined });
+    }
+    await saveOutbox(env, box);
+    return { ...out, ok: false, error: res.error, parked: true };
+  }
+  return out;
+}
 
-    for (const it of items) {
-      // 1. 제목 가져오기 및 정규화
-      const rawTitle = String(it?.title || "");
-      const title = decodeHtml(rawTitle.replace(/<\/?b>/g, ""));
+// 보관된 메시지를 순서대로 재전송 (재시도 가능한 실패에서 멈춰 순서 유지)
+//   재시도해도 안 되는 항목은 버림 — 뒤에 쌓인 메시지를 막지 않도록 (워터마크는 전달된 항목만 반영)
+async function drainOutbox(env: Env): Promise<{ sent: number; remaining: number; dropped: string[] }> {
+  const box = await loadOutbox(env);
+  if (!box.length) return { sent: 0, remaining: 0, dropped: [] };
 
-      // [추가] 2. 요약문(description) 가져오기 (제목 말줄임 보완용)
-      const rawDesc = String(it?.description || "");
-      const description = decodeHtml(rawDesc.replace(/<\/?b>/g, ""));
+  let sent = 0;
+  const dropped: string[] = [];
+  while (box.length) {
+    const item = box[0];
+    const res = await sendTelegram(item.text, item.chatId, env);
+    if (!res.ok && isRetryable(res)) break;
+    if (res.ok) {
+      sent++;
+      await applyDeliveryMarks(env, item.marks);
+    } else {
+      dropped.push(res.error ?? `HTTP ${res.status}`);
+    }
+    box.shift();
+  }
+  await saveOutbox(env, box);
+  return { sent, remaining: box.length, dropped };
+}
 
-      const link = normalizeUrl(String(it?.link || "").trim());
-      const pubUTC = parsePubUTC(String(it?.pubDate || ""));
-      if (!pubUTC) continue;
+// 관리자 리포트용 전달 상태 한 줄
+function fmtDelivery(res: DeliveryResult & { parked?: boolean; parts?: number; delivered?: number; dropped?: number; followups?: number }): string {
+  const partLabel = res.parts && res.parts > 1 ? ` ${res.delivered}/${res.parts}파트` : "";
+  const threadLabel = res.followups ? ` · 🧵 후속 ${res.followups}건` : "";
+  if (res.ok) return `✅ 전달${partLabel}${threadLabel} (${res.attempts}회 시도)`;
+  const why = escapeHtml(res.error ?? (res.status ? `HTTP ${res.status}` : "unknown"));
+  const fate = res.parked ? " → outbox 보관" : res.dropped ? ` → ${res.dropped}파트 폐기` : "";
+  return `⚠️ 실패${partLabel} ${why} (${res.attempts}회)${fate}`;
+}
 
-      // 시간 필터: UTC 비교 (<= lastChecked 제외)
-      if (lastChecked && pubUTC.getTime() <= lastChecked.getTime()) {
-        stopDueToOld = true;
-        continue;
-      }
-      time_filtered++;
-      pubTimesUTC.push(pubUTC);
+/* ───────────────────────────── config loader ───────────────────────────── */
+type AppConfig = {
+  search_keywords: string[];
+  include_keywords: string[];
+  exclude_keywords: string[];
+  priority_keywords: string[];     // 매칭되면 다이제스트를 기다리지 않고 즉시 속보
+  display_per_call: number;
+  max_loops: number;
+  min_send_threshold: number;
+  force_hours: number[]; // schedule.timezone 기준 시간대(정수)
+  seen_ttl_hours: number;   // seen-set 항목 보관 시간
+  late_grace_hours: number; // 워터마크보다 이만큼 과거 기사까지 seen-set으로 재확인
+  sources: SourceConfig[];  // 기사 수집원 (기본: 네이버 뉴스 검색)
+  cluster_threshold: number;       // 제목 유사도 묶음 기준 (0~1)
+  cluster_stop_prefixes: string[]; // 비교 전에 떼어낼 말머리
+  scoring: ScoringConfig;          // 관련도 점수/순위
+  recap: RecapConfig;              // 일간/주간 요약
+  schedule: SchedulePolicy;        // 시간대/발송 창/조용한 시간
+  match_day: MatchDayConfig;       // 경기 전후 프로필
+  links: LinkConfig;               // 링크 선택/언론사 이름/도메인 필터
+  threading: ThreadingConfig;      // 이어지는 기사 답장/수정
+  destinations: DestinationConfig[]; // 발송 대상 (첫 번째가 주 전달처)
+  feed_size: number;               // /feed.xml, /feed.json 최근 클러스터 수
+  auto_hold_below: number;         // 피드백 분류기 관련 확률이 이보다 낮으면 보류 (0 = 끔)
+};
 
-      // 검사용 텍스트 정규화
-      const tNorm = norm(title);
-      const dNorm = norm(description); // [추가] 요약문 정규화
+function clusterOptionsFrom(cfg: AppConfig, showScores = false): ClusterOptions {
+  return { threshold: cfg.cluster_threshold, stopPrefixes: cfg.cluster_stop_prefixes, showScores };
+}
 
-      // 포함 필터 (제목 기준 유지)
-      // *필요하다면 dNorm도 포함 조건에 넣을 수 있으나, 
-      //  보통 '제목'에 핵심 키워드가 있어야 관련성이 높으므로 제목만 유지하는 것을 추천합니다.
-      let includeOk = true;
-      if (cfg.include_keywords.length) {
-        includeOk = cfg.include_keywords.some(k => tNorm.includes(norm(k)));
-      }
-      if (!includeOk) { title_include_fail++; continue; }
-
-      // 제외 필터 [수정됨]
-      // 제목(tNorm) 혹은 요약문(dNorm) 중 하나라도 제외 키워드가 있으면 제외
-      if (cfg.exclude_keywords.length) {
-        if (cfg.exclude_keywords.some(k => {
-            const kn = norm(k);
-            return tNorm.includes(kn) || dNorm.includes(kn);
-        })) {
-          title_exclude_hit++; continue;
-        }
-      }
+// 수집원 설정: naver = search_keywords 쿼리, rss = RSS 2.0/Atom 피드 URL
+type SourceConfig =
+  | { type: "naver" }
+  | { type: "rss"; name: string; url: string };
 
-      // 링크 중복 제거
-      if (seen.has(link)) continue;
-      seen.add(link);
+const DEFAULT_SOURCES: SourceConfig[] = [{ type: "naver" }];
 
-      collected.push({ title, link, pubUTC });
+// cfg:APP의 sources 배열 정리 (알 수 없는 항목은 버림)
+function parseSources(raw: any): SourceConfig[] {
+  if (!Array.isArray(raw)) return DEFAULT_SOURCES;
+  const out: SourceConfig[] = [];
+  for (const s of raw) {
+    if (s?.type === "naver") out.push({ type: "naver" });
+    else if (s?.type === "rss" && typeof s.url === "string" && s.url) {
+      out.push({ type: "rss", name: String(s.name || shortHostname(s.url) || "rss"), url: s.url });
     }
-
-    loopReports.push({
-      call_no: page,
-      fetched,
-      time_filtered,
-      title_include_fail,
-      title_exclude_hit,
-      // ⛔ 제외필터 적용 전 제목 통과 수 (사용자 의도 유지)
-      title_include_pass: Math.max(0, time_filtered - title_include_fail),
-    });
-
-    if (stopDueToOld) break;
-    if (items.length < DISPLAY) break;
   }
+  return out.length ? out : DEFAULT_SOURCES;
+}
 
-  const latestUTC = pubTimesUTC.length ? pubTimesUTC.reduce((a, b) => a > b ? a : b) : null;
-  const earliestUTC = pubTimesUTC.length ? pubTimesUTC.reduce((a, b) => a < b ? a : b) : null;
+// 발송 대상: telegram(chat_id 없으면 TELEGRAM_CHAT_ID), discord/slack 웹훅, 범용 JSON 웹훅
+type DestinationConfig =
+  | { type: "telegram"; name: string; chat_id?: string }
+  | { type: "discord" | "slack" | "webhook"; name: string; url: string };
 
-  function fmtKSTLabel(dUTC: Date | null) {
-    if (!dUTC) return "N/A";
-    const k = toKST(dUTC);
-    return `${pad(k.getUTCMonth() + 1)}-${pad(k.getUTCDate())}(${pad(k.getUTCHours())}:${pad(k.getUTCMinutes())})`;
+const DEFAULT_DESTINATIONS: DestinationConfig[] = [{ type: "telegram", name: "telegram" }];
+const WEBHOOK_TYPES = ["discord", "slack", "webhook"] as const;
+
+function parseDestinations(raw: any): DestinationConfig[] {
+  if (!Array.isArray(raw)) return DEFAULT_DESTINATIONS;
+  const out: DestinationConfig[] = [];
+  for (const d of raw) {
+    if (d?.type === "telegram") {
+      out.push({ type: "telegram", name: String(d.name || "telegram"), chat_id: d.chat_id ? String(d.chat_id) : undefined });
+    } else if ((WEBHOOK_TYPES as readonly string[]).includes(d?.type) && typeof d.url === "string" && d.url) {
+      out.push({ type: d.type, name: String(d.name || d.type), url: d.url });
+    }
   }
+  return out.length ? out : DEFAULT_DESTINATIONS;
+}
 
-  const latestStr = fmtKSTLabel(latestUTC);
-  const earliestStr = fmtKSTLabel(earliestUTC);
+// 기사 링크: naver = 네이버 뷰어(link), original = 언론사 원문(originallink, 없으면 link)
+type LinkConfig = {
+  prefer: "naver" | "original";
+  press_names: Record<string, string>; // 도메인 → 언론사 이름 (기본 표에 덧씌움)
+  allow_domains: string[];             // 비어 있지 않으면 이 도메인(하위 포함) 기사만
+  block_domains: string[];             // 이 도메인(하위 포함) 기사는 제외
+};
 
-  return { cfg, collected, loopReports, latestStr, earliestStr, latestUTC };
-}
+const DEFAULT_LINKS: LinkConfig = { prefer: "naver", press_names: {}, allow_domains: [], block_domains: [] };
+const LINK_DOMAIN_KEYS = ["allow_domains", "block_domains"] as const;
 
-/* ───────────────────────── policy helpers ───────────────────────── */
-function computeShouldSend(nowKST: Date, candidateCount: number, minSend: number, forceHours: number[]) {
-  const FORCED = new Set(forceHours);
-  // toKST로 보정된 Date에서 getUTCHours()는 'KST 시각'이 됨
-  return FORCED.has(nowKST.getUTCHours())
-    ? (candidateCount >= 1)
-    : (candidateCount >= minSend);
+function parseLinks(raw: any): LinkConfig {
+  if (!raw || typeof raw !== "object") return DEFAULT_LINKS;
+  const domains = (v: any) => (Array.isArray(v) ? v.map(d => String(d).trim().toLowerCase()).filter(Boolean) : []);
+  const names: Record<string, string> = {};
+  if (raw.press_names && typeof raw.press_names === "object") {
+    for (const [d, n] of Object.entries(raw.press_names)) {
+      if (typeof n === "string" && n.trim()) names[d.trim().toLowerCase()] = n.trim();
+    }
+  }
+  return {
+    prefer: raw.prefer === "original" ? "original" : "naver",
+    press_names: names,
+    allow_domains: domains(raw.allow_domains),
+    block_domains: domains(raw.block_domains),
+  };
 }
 
-/* ───────────────────────── HTTP: test/preview & env ───────────────────────── */
-// 디버그용 마스킹
-const mask = (s?: string) => (s ? s.slice(0, 4) + "***" + s.slice(-4) : "");
+// 이어지는 기사: 최근 보낸 클러스터와 같은 이야기면 새 다이제스트 대신 원래 메시지에 답장(reply) 또는 수정(edit)
+type ThreadingConfig = {
+  mode: "off" | "reply" | "edit";
+  window_hours: number; // 원래 메시지 발송 후 이 시간 안에만 이어 붙임
+};
 
-// /env 스냅샷
-function buildEnvSnapshot(env: Env) {
+const DEFAULT_THREADING: ThreadingConfig = { mode: "off", window_hours: 24 }; // 기존 다이제스트 동작 유지, 설정으로 켬
+const THREADING_MODES = ["off", "reply", "edit"] as const;
+
+function parseThreading(raw: any): ThreadingConfig {
+  if (!raw || typeof raw !== "object") return DEFAULT_THREADING;
   return {
-    app: {
-      APP_NAME: env.APP_NAME ?? null,
-    },
-    raw_vars: {
-      SEARCH_KEYWORDS: env.SEARCH_KEYWORDS ?? null,
-      INCLUDE_KEYWORDS: env.INCLUDE_KEYWORDS ?? null,
-      EXCLUDE_KEYWORDS: env.EXCLUDE_KEYWORDS ?? null,
-      DISPLAY_PER_CALL: env.DISPLAY_PER_CALL ?? null,
-      MAX_LOOPS: env.MAX_LOOPS ?? null,
-      MIN_SEND_THRESHOLD: env.MIN_SEND_THRESHOLD ?? null,
-      FORCE_HOURS: env.FORCE_HOURS ?? null,
-    },
-    secrets_masked: {
-      NAVER_CLIENT_ID: mask(env.NAVER_CLIENT_ID),
-      NAVER_CLIENT_SECRET: mask(env.NAVER_CLIENT_SECRET),
-      TELEGRAM_BOT_TOKEN: mask(env.TELEGRAM_BOT_TOKEN),
-      TELEGRAM_CHAT_ID: mask(env.TELEGRAM_CHAT_ID),
-      ADMIN_CHAT_ID: mask(env.ADMIN_CHAT_ID),
-    },
+    mode: THREADING_MODES.includes(raw.mode) ? raw.mode : DEFAULT_THREADING.mode,
+    window_hours: parseNumber(raw.window_hours, DEFAULT_THREADING.window_hours, 1, 72),
   };
 }
 
-async function handleTestPreview(env: Env) {
-  const { cfg, collected, loopReports, latestStr, earliestStr } = await searchRecentNews(env);
-  const nowUTC = new Date();
-  const nowKST = toKST(nowUTC);
-  const shouldSend = computeShouldSend(nowKST, collected.length, cfg.min_send_threshold, cfg.force_hours);
-
-  const totalLatest = loopReports.reduce((s, r) => s + (r.time_filtered || 0), 0);
-  const totalExcl = loopReports.reduce((s, r) => s + (r.title_exclude_hit || 0), 0);
-  const totalPass = loopReports.reduce((s, r) => s + (r.title_include_pass || 0), 0);
+function parseNumber(n: any, def: number, min?: number, max?: number): number {
+  let v = Number(n);
+  if (!Number.isFinite(v)) v = def;
+  if (typeof min === "number") v = Math.max(min, v);
+  if (typeof max === "number") v = Math.min(max, v);
+  return v;
+}
 
-  const timeLabel = fmtKSTClockLabel(nowUTC);
+// 숫자 설정의 기본값/범위 (loadConfig 보정과 /config 검증이 같이 씀)
+const NUMBER_FIELDS = {
+  display_per_call: { def: 30, min: 1, max: 100, int: true },
+  max_loops: { def: 3, min: 1, max: 10, int: true },
+  min_send_threshold: { def: 1, min: 0, max: 100, int: true },
+  seen_ttl_hours: { def: 72, min: 1, max: 24 * 30, int: false },
+  late_grace_hours: { def: 6, min: 0, max: 72, int: false },
+  cluster_threshold: { def: 0.35, min: 0, max: 1, int: false },
+  feed_size: { def: 50, min: 1, max: 200, int: true },
+  auto_hold_below: { def: 0, min: 0, max: 1, int: false },
+} as const;
+type NumberField = keyof typeof NUMBER_FIELDS;
 
-  // 라인 단위로 조립해서 불필요한 공백 제거
-  const lines: string[] = [];
+const LIST_FIELDS = ["search_keywords", "include_keywords", "exclude_keywords", "priority_keywords", "cluster_stop_prefixes"] as const;
+const DEFAULT_FORCE_HOURS = "0,2,4,6,8,10,12,14,16,18,20,22";
+const SCORING_NUMBER_KEYS = [
+  "size_weight", "recency_half_life_hours", "max_clusters", "min_score", "alert_score",
+] as const;
 
-  // 헤더 2줄
-  lines.push(`🧪 TEST PREVIEW [${collected.length}건] (${timeLabel} 기준)`);
-  lines.push(`• ${shouldSend ? "보낼 예정(조건 충족)" : "보류 예정(조건 미충족)"}`);
+// 설정 검증 오류: path는 "force_hours[2]", "scoring.min_score" 형식
+type ConfigIssue = { path: string; message: string };
 
-  // 집계/루프 포맷: (-제외) 제목통과 ← 최신 | (제외)제목통과/최신, (n차) 최신 ← 호출 | 최신/호출
-  const exclLabel = totalExcl > 0 ? `(-${totalExcl})` : `(0)`;
-  lines.push(`${exclLabel} ${totalPass} ← ${totalLatest} | (제외)제목통과/최신`);
+// cfg:APP 형태의 (부분) 객체 검증 — 들어 있는 키만 검사
+function validateConfigPatch(input: any): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const add = (path: string, message: string) => issues.push({ path, message });
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    add("", "JSON 객체여야 합니다");
+    return issues;
+  }
 
-  for (const r of loopReports) {
-    lines.push(`(${r.call_no}차) ${r.time_filtered} ← ${r.fetched} | 최신/호출`);
+  const known = new Set<string>([
+    ...LIST_FIELDS, ...Object.keys(NUMBER_FIELDS), "force_hours", "sources", "scoring", "recap", "schedule", "match_day", "links", "destinations", "threading",
+  ]);
+  for (const key of Object.keys(input)) {
+    if (!known.has(key)) add(key, "알 수 없는 설정 키");
   }
 
-  lines.push(`(최신) ${latestStr} ~ ${earliestStr}`);
+  for (const key of LIST_FIELDS) {
+    if (!(key in input)) continue;
+    const v = input[key];
+    if (!Array.isArray(v)) { add(key, "문자열 배열이어야 합니다"); continue; }
+    v.forEach((item, i) => {
+      if (typeof item !== "string" || !item.trim()) return add(`${key}[${i}]`, "빈 값이 아닌 문자열이어야 합니다");
+      if (key === "include_keywords" || key === "exclude_keywords" || key === "priority_keywords") {
+        try {
+          parseKeywordRule(item, "title");
+        } catch (e: any) {
+          add(`${key}[${i}]`, `규칙 오류: ${e?.message || e}`);
+        }
+      }
+    });
+    if (key === "search_keywords" && !v.length) add(key, "검색어가 하나 이상 필요합니다");
+  }
 
-  // 기사 목록 (제목 유사도로 클러스터링)
-  lines.push("");
-  const articleLines = buildClusteredArticleLines(collected);
-  lines.push(...articleLines);
-
-  await sendTelegram(lines.join("\n"), env.ADMIN_CHAT_ID, env);
-
-  return new Response(
-    JSON.stringify(
-      {
-        shouldSend,
-        minSend: cfg.min_send_threshold,
-        count: collected.length,
-        items: collected.map(it => ({ title: it.title, link: it.link })),
-        loopReports,
-        latestStr,
-        earliestStr,
-        cfg,
-      },
-      null,
-      2
-    ),
-    { status: 200, headers: { "content-type": "application/json; charset=utf-8" } }
-  );
-}
+  for (const key of Object.keys(NUMBER_FIELDS) as NumberField[]) {
+    if (!(key in input)) continue;
+    const f = NUMBER_FIELDS[key];
+    const v = input[key];
+    if (typeof v !== "number" || !Number.isFinite(v)) add(key, "숫자여야 합니다");
+    else if (f.int && !Number.isInteger(v)) add(key, "정수여야 합니다");
+    else if (v < f.min || v > f.max) add(key, `${f.min}~${f.max} 범위여야 합니다`);
+  }
 
-/* ───────────────────────── Worker ───────────────────────── */
-export default {
-  async fetch(req: Request, env: Env): Promise<Response> {
-    const url = new URL(req.url);
+  if ("force_hours" in input) {
+    const v = input.force_hours;
+    if (!Array.isArray(v)) add("force_hours", "0~23 정수 배열이어야 합니다");
+    else v.forEach((h, i) => {
+      if (!Number.isInteger(h) || h < 0 || h > 23) add(`force_hours[${i}]`, "0~23 정수여야 합니다");
+    });
+  }
 
-    // 임시 디버그 엔드포인트 (/env?admin=1)
-    if (url.pathname === "/env") {
-      if (url.searchParams.get("admin") !== "1") {
-        return new Response("forbidden", { status: 403 });
-      }
-      const snap = buildEnvSnapshot(env);
+  if ("sources" in input) {
+    const v = input.sources;
+    if (!Array.isArray(v)) add("sources", "배열이어야 합니다");
+    else v.forEach((src, i) => {
+      if (src?.type === "naver") return;
+      if (src?.type !== "rss") return add(`sources[${i}].type`, '"naver" 또는 "rss"여야 합니다');
+      if (typeof src.url !== "string" || !/^https?:\/\//i.test(src.url)) add(`sources[${i}].url`, "http(s) URL이어야 합니다");
+      if ("name" in src && typeof src.name !== "string") add(`sources[${i}].name`, "문자열이어야 합니다");
+    });
+  }
 
-      // (선택) ?kv=1 이면 KV의 개별 텍스트 키 힌트 포함
-      if (url.searchParams.get("kv") === "1") {
-        const [kvSearch, kvInclude, kvExclude, kvForce] = await Promise.all([
-          env.FCANEWS_KV.get("SEARCH_KEYWORDS"),
-          env.FCANEWS_KV.get("INCLUDE_KEYWORDS"),
-          env.FCANEWS_KV.get("EXCLUDE_KEYWORDS"),
-          env.FCANEWS_KV.get("FORCE_HOURS"),
-        ]);
-        (snap as any).kv_hints = {
-          SEARCH_KEYWORDS: kvSearch ?? null,
-          INCLUDE_KEYWORDS: kvInclude ?? null,
-          EXCLUDE_KEYWORDS: kvExclude ?? null,
-          FORCE_HOURS: kvForce ?? null,
-        };
+  if ("scoring" in input) {
+    const v = input.scoring;
+    if (!v || typeof v !== "object" || Array.isArray(v)) add("scoring", "객체여야 합니다");
+    else {
+      for (const key of Object.keys(v)) {
+        if (key === "keyword_weights" || key === "publisher_weights") {
+          const w = v[key];
+          if (!w || typeof w !== "object" || Array.isArray(w)) { add(`scoring.${key}`, "{ 이름: 숫자 } 객체여야 합니다"); continue; }
+          for (const [name, n] of Object.entries(w)) {
+            if (typeof n !== "number" || !Number.isFinite(n)) add(`scoring.${key}.${name}`, "숫자여야 합니다");
+          }
+        } else if ((SCORING_NUMBER_KEYS as readonly string[]).includes(key)) {
+          if (typeof v[key] !== "number" || !Number.isFinite(v[key]) || v[key] < 0) add(`scoring.${key}`, "0 이상의 숫자여야 합니다");
+        } else {
+          add(`scoring.${key}`, "알 수 없는 설정 키");
+        }
       }
-
-      return new Response(JSON.stringify(snap, null, 2), {
-        status: 200,
-        headers: { "content-type": "application/json; charset=utf-8" },
-      });
     }
+  }
 
-    if (url.pathname.toLowerCase() === "/test") {
-      return await handleTestPreview(env); // 공개 미리보기
+  if ("recap" in input) {
+    const v = input.recap;
+    if (!v || typeof v !== "object" || Array.isArray(v)) add("recap", "객체여야 합니다");
+    else {
+      const ranges: Record<string, [number, number]> = {
+        daily_hour: [-1, 23], weekly_weekday: [-1, 6], weekly_hour: [0, 23], max_clusters: [1, 50],
+      };
+      for (const key of Object.keys(v)) {
+        const r = ranges[key];
+        if (!r) add(`recap.${key}`, "알 수 없는 설정 키");
+        else if (!Number.isInteger(v[key]) || v[key] < r[0] || v[key] > r[1]) add(`recap.${key}`, `${r[0]}~${r[1]} 정수여야 합니다`);
+      }
     }
+  }
 
-    // 헬스체크/루트
+  if ("schedule" in input) {
+    const v = input.schedule;
+    const isHour = (h: any) => Number.isInteger(h) && h >= 0 && h <= 24;
+    if (!v || typeof v !== "object" || Array.isArray(v)) add("schedule", "객체여야 합니다");
+    else {
+      for (const key of Object.keys(v)) {
+        if (!["timezone", "quiet_hours", "windows"].includes(key)) add(`schedule.${key}`, "알 수 없는 설정 키");
+      }
+      if ("timezone" in v && (typeof v.timezone !== "string" || !isValidTimeZone(v.timezone))) {
+        add("schedule.timezone", "IANA 시간대여야 합니다 (예: Asia/Seoul)");
+      }
+      if (v.quiet_hours != null && (!isHour(v.quiet_hours.start) || !isHour(v.quiet_hours.end))) {
+        add("schedule.quiet_hours", "{ start, end } 0~24 정수여야 합니다");
+      }
+      if ("windows" in v) {
+        if (!Array.isArray(v.windows)) add("schedule.windows", "배열이어야 합니다");
+        else v.windows.forEach((w: any, i: number) => {
+          const p = `schedule.windows[${i}]`;
+          if (!isHour(w?.start) || !isHour(w?.end)) add(p, "start/end는 0~24 정수여야 합니다");
+          if (w?.days !== undefined && (!Array.isArray(w.days) || w.days.some((d: any) => !Number.isInteger(d) || d < 0 || d > 6))) {
+            add(`${p}.days`, "0(일)~6(토) 정수 배열이어야 합니다");
+          }
+          if (w?.min_send !== undefined && (!Number.isInteger(w.min_send) || w.min_send < 0)) add(`${p}.min_send`, "0 이상 정수여야 합니다");
+          if (w?.force_hours !== undefined && (!Array.isArray(w.force_hours) || w.force_hours.some((h: any) => !Number.isInteger(h) || h < 0 || h > 23))) {
+            add(`${p}.force_hours`, "0~23 정수 배열이어야 합니다");
+          }
+        });
+      }
+    }
+  }
+
+  if ("match_day" in input) {
+    const v = input.match_day;
+    if (!v || typeof v !== "object" || Array.isArray(v)) add("match_day", "객체여야 합니다");
+    else {
+      const ranges: Record<string, [number, number]> = { hours_before: [0, 48], hours_after: [0, 48], min_send: [0, 100] };
+      for (const key of Object.keys(v)) {
+        const r = ranges[key];
+        if (key === "enabled") {
+          if (typeof v.enabled !== "boolean") add("match_day.enabled", "true/false여야 합니다");
+        } else if (key === "team_names") {
+          if (!Array.isArray(v.team_names) || v.team_names.some((n: any) => typeof n !== "string" || !n.trim())) {
+            add("match_day.team_names", "문자열 배열이어야 합니다");
+          }
+        } else if (key === "force_offsets") {
+          if (!Array.isArray(v.force_offsets) || v.force_offsets.some((h: any) => !Number.isInteger(h) || h < -48 || h > 48)) {
+            add("match_day.force_offsets", "-48~48 정수 배열이어야 합니다");
+          }
+        } else if (!r) add(`match_day.${key}`, "알 수 없는 설정 키");
+        else if (!Number.isInteger(v[key]) || v[key] < r[0] || v[key] > r[1]) add(`match_day.${key}`, `${r[0]}~${r[1]} 정수여야 합니다`);
+      }
+    }
+  }
+
+  if ("destinations" in input) {
+    const v = input.destinations;
+    if (!Array.isArray(v) || !v.length) add("destinations", "전달처가 하나 이상 있는 배열이어야 합니다");
+    else v.forEach((d, i) => {
+      if ("name" in (d ?? {}) && typeof d.name !== "string") add(`destinations[${i}].name`, "문자열이어야 합니다");
+      if (d?.type === "telegram") {
+        if (d.chat_id !== undefined && typeof d.chat_id !== "string" && typeof d.chat_id !== "number") {
+          add(`destinations[${i}].chat_id`, "문자열 또는 숫자여야 합니다");
+        }
+      } else if ((WEBHOOK_TYPES as readonly string[]).includes(d?.type)) {
+        if (typeof d.url !== "string" || !/^https:\/\//i.test(d.url)) add(`destinations[${i}].url`, "https URL이어야 합니다");
+      } else {
+        add(`destinations[${i}].type`, '"telegram", "discord", "slack", "webhook" 중 하나여야 합니다');
+      }
+    });
+  }
+
+  if ("links" in input) {
+    const v = input.links;
+    if (!v || typeof v !== "object" || Array.isArray(v)) add("links", "객체여야 합니다");
+    else {
+      for (const key of Object.keys(v)) {
+        if (key === "prefer") {
+          if (v.prefer !== "naver" && v.prefer !== "original") add("links.prefer", '"naver" 또는 "original"이어야 합니다');
+        } else if (key === "press_names") {
+          const m = v.press_names;
+          if (!m || typeof m !== "object" || Array.isArray(m)) { add("links.press_names", "{ 도메인: 이름 } 객체여야 합니다"); continue; }
+          for (const [d, n] of Object.entries(m)) {
+            if (typeof n !== "string" || !n.trim()) add(`links.press_names.${d}`, "빈 값이 아닌 문자열이어야 합니다");
+          }
+        } else if ((LINK_DOMAIN_KEYS as readonly string[]).includes(key)) {
+          if (!Array.isArray(v[key]) || v[key].some((d: any) => typeof d !== "string" || !/^[a-z0-9.-]+\.[a-z]{2,}$/i.test(d.trim()))) {
+            add(`links.${key}`, "도메인 문자열 배열이어야 합니다 (예: chosun.com)");
+          }
+        } else {
+          add(`links.${key}`, "알 수 없는 설정 키");
+        }
+      }
+    }
+  }
+
+  if ("threading" in input) {
+    const v = input.threading;
+    if (!v || typeof v !== "object" || Array.isArray(v)) add("threading", "객체여야 합니다");
+    else {
+      for (const key of Object.keys(v)) {
+        if (key === "mode") {
+          if (!THREADING_MODES.includes(v.mode)) add("threading.mode", '"off", "reply", "edit" 중 하나여야 합니다');
+        } else if (key === "window_hours") {
+          if (typeof v.window_hours !== "number" || !(v.window_hours >= 1 && v.window_hours <= 72)) {
+            add("threading.window_hours", "1~72 사이 숫자여야 합니다");
+          }
+        } else {
+          add(`threading.${key}`, "알 수 없는 설정 키");
+        }
+      }
+    }
+  }
+
+  return issues;
+}
+
+/* ───────────────────────────── config versions ───────────────────────────── */
+const KV_CFG_META = "cfg:meta";              // { version, updated_at, note }
+const KV_CFG_HISTORY_PREFIX = "cfg:history:"; // cfg:history:<version> → { ...meta, cfg }
+const CFG_HISTORY_MAX = 20;
+
+type ConfigMeta = { version: number; updated_at: string | null; note?: string };
+type ConfigHistoryEntry = ConfigMeta & { cfg: AppConfig };
+
+async function loadConfigMeta(env: Env): Promise<ConfigMeta> {
+  try {
+    const raw = await env.FCANEWS_KV.get(KV_CFG_META);
+    if (raw) return JSON.parse(raw);
+  } catch (e) {
+    console.error("cfg:meta parse error", e);
+  }
+  return { version: 0, updated_at: null };
+}
+
+// cfg:APP(JSON) 저장 — loadConfig가 최우선으로 읽는 키. 저장할 때마다 버전 +1, 이력 보관
+async function saveConfig(env: Env, cfg: AppConfig, note = ""): Promise<ConfigMeta> {
+  const prev = await loadConfigMeta(env);
+  const meta: ConfigMeta = { version: prev.version + 1, updated_at: new Date().toISOString(), note };
+  await env.FCANEWS_KV.put(KV_CFG, JSON.stringify(cfg));
+  await env.FCANEWS_KV.put(`${KV_CFG_HISTORY_PREFIX}${meta.version}`, JSON.stringify({ ...meta, cfg }));
+  await env.FCANEWS_KV.put(KV_CFG_META, JSON.stringify(meta));
+  if (meta.version > CFG_HISTORY_MAX) {
+    await env.FCANEWS_KV.delete(`${KV_CFG_HISTORY_PREFIX}${meta.version - CFG_HISTORY_MAX}`);
+  }
+  return meta;
+}
+
+async function loadConfigHistory(env: Env, version: number): Promise<ConfigHistoryEntry | null> {
+  const raw = await env.FCANEWS_KV.get(`${KV_CFG_HISTORY_PREFIX}${version}`);
+  return raw ? JSON.parse(raw) : null;
+}
+
+/* ───────────────────────────── config loader ───────────────────────────── */
+// cfg:APP(JSON) → KV 개별 텍스트 키 → TOML vars → 기본값 순.
+// cfg:APP의 잘못된 항목은 버리고(다음 순위로 폴백) warnings로 돌려준다 — 조용히 넘어가지 않음
+async function loadConfigChecked(env: Env): Promise<{ cfg: AppConfig; warnings: ConfigIssue[] }> {
+  // KV에 단일 텍스트로 저장된 키들 (운영자가 대시보드에서 수정 가능)
+  const kvSearch = await env.FCANEWS_KV.get("SEARCH_KEYWORDS");
+  const kvInclude = await env.FCANEWS_KV.get("INCLUDE_KEYWORDS");
+  const kvExclude = await env.FCANEWS_KV.get("EXCLUDE_KEYWORDS");
+  const kvDisplay = await env.FCANEWS_KV.get("DISPLAY_PER_CALL");
+  const kvMaxLoops = await env.FCANEWS_KV.get("MAX_LOOPS");
+  const kvMinSend = await env.FCANEWS_KV.get("MIN_SEND_THRESHOLD");
+  const kvForce = await env.FCANEWS_KV.get("FORCE_HOURS");
+
+  const warnings: ConfigIssue[] = [];
+  let stored: any = {};
+  const raw = await env.FCANEWS_KV.get(KV_CFG);
+  if (raw) {
+    try {
+      stored = JSON.parse(raw);
+    } catch (e) {
+      console.error("loadConfig KV cfg:APP parse error", e);
+      warnings.push({ path: KV_CFG, message: "JSON 파싱 실패 — 개별 키/vars로 대체" });
+    }
+    for (const issue of validateConfigPatch(stored)) {
+      warnings.push(issue);
+      const top = issue.path.split(/[.[]/)[0];
+      if (top && stored && typeof stored === "object") delete stored[top];
+      else stored = {};
+    }
+    if (warnings.length) console.error("loadConfig cfg:APP issues", JSON.stringify(warnings));
+  }
+
+  const num = (key: NumberField, ...fallbacks: Array<string | null | undefined>) => {
+    const f = NUMBER_FIELDS[key];
+    return parseNumber(stored[key] ?? fallbacks.find(v => v != null) ?? f.def, f.def, f.min, f.max);
+  };
+
+  const cfg: AppConfig = {
+    search_keywords: stored.search_keywords ?? pickList(kvSearch, env.SEARCH_KEYWORDS),
+    include_keywords: stored.include_keywords ?? pickList(kvInclude, env.INCLUDE_KEYWORDS),
+    exclude_keywords: stored.exclude_keywords ?? pickList(kvExclude, env.EXCLUDE_KEYWORDS),
+    priority_keywords: stored.priority_keywords ?? pickList(env.PRIORITY_KEYWORDS),
+    display_per_call: num("display_per_call", kvDisplay, env.DISPLAY_PER_CALL),
+    max_loops: num("max_loops", kvMaxLoops, env.MAX_LOOPS),
+    min_send_threshold: num("min_send_threshold", kvMinSend, env.MIN_SEND_THRESHOLD),
+    force_hours: stored.force_hours ?? pickNumList(kvForce, env.FORCE_HOURS, DEFAULT_FORCE_HOURS),
+    seen_ttl_hours: num("seen_ttl_hours", env.SEEN_TTL_HOURS),
+    late_grace_hours: num("late_grace_hours", env.LATE_GRACE_HOURS),
+    sources: parseSources(stored.sources),
+    cluster_threshold: num("cluster_threshold", env.CLUSTER_THRESHOLD),
+    cluster_stop_prefixes: stored.cluster_stop_prefixes
+      ?? pickList(env.CLUSTER_STOP_PREFIXES, DEFAULT_STOP_PREFIXES.join(",")),
+    scoring: parseScoring(stored.scoring),
+    recap: parseRecap(stored.recap),
+    schedule: parseSchedule(stored.schedule),
+    match_day: parseMatchDay(stored.match_day),
+    links: parseLinks(stored.links),
+    threading: parseThreading(stored.threading),
+    destinations: parseDestinations(stored.destinations),
+    feed_size: num("feed_size"),
+    auto_hold_below: num("auto_hold_below"),
+  };
+  return { cfg, warnings };
+}
+
+async function loadConfig(env: Env): Promise<AppConfig> {
+  return (await loadConfigChecked(env)).cfg;
+}
+
+/* ───────────────────────────── seen-set ───────────────────────────── */
+// 정규화 URL / 제목 지문 → { 상태, 만료시각 } (단일 JSON 키에 보관)
+type SeenState = "seen" | "sent";
+type SeenEntry = { s: SeenState; e: number }; // e: 만료 epoch(ms)
+type SeenStore = Record<string, SeenEntry>;
+
+// FNV-1a 32bit → 8자리 hex (KV 값 크기 절약용)
+function fnv1a(s: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, "0");
+}
+
+// 기사 하나의 seen 키들: URL 기준(네이버/원문 URL 모두) + 제목 지문 기준
+function seenKeysFor(title: string, ...links: Array<string | undefined>): string[] {
+  const keys = links.filter((l): l is string => !!l).map(l => `u:${fnv1a(l)}`);
+  const fp = tokenizeTitleForCluster(title).join(" ");
+  if (fp) keys.push(`t:${fnv1a(fp)}`);
+  return keys;
+}
+
+// 키들 중 하나라도 "sent"면 sent, 아니면 seen/없음
+function lookupSeen(store: SeenStore, keys: string[]): SeenState | null {
+  let found: SeenState | null = null;
+  for (const k of keys) {
+    const st = store[k]?.s;
+    if (st === "sent") return "sent";
+    if (st) found = st;
+  }
+  return found;
+}
+
+async function loadSeen(env: Env, now = Date.now()): Promise<SeenStore> {
+  try {
+    const raw = await env.FCANEWS_KV.get(KV_SEEN);
+    const store: SeenStore = raw ? JSON.parse(raw) : {};
+    for (const k of Object.keys(store)) {
+      if (!(store[k]?.e > now)) delete store[k]; // 만료 정리
+    }
+    return store;
+  } catch (e) {
+    console.error("loadSeen parse error", e);
+    return {};
+  }
+}
+
+// 상태 기록 (sent는 seen으로 강등하지 않음) 후 저장
+async function saveSeen(
+  env: Env,
+  store: SeenStore,
+  updates: Array<{ keys: string[]; state: SeenState }>,
+  ttlHours: number,
+  now = Date.now()
+): Promise<void> {
+  const e = now + ttlHours * 3600 * 1000;
+  for (const u of updates) {
+    for (const k of u.keys) {
+      const s = store[k]?.s === "sent" ? "sent" : u.state;
+      store[k] = { s, e };
+    }
+  }
+  await env.FCANEWS_KV.put(KV_SEEN, JSON.stringify(store));
+}
+
+/* ───────────────────────── loop reports ───────────────────────── */
+// 점수 요약: (점수) 최고점 | 선택/전체 클러스터
+function fmtScoreSummary(d: { clusters: ArticleCluster[]; dropped: ArticleCluster[]; topScore: number }): string {
+  const total = d.clusters.length + d.dropped.length;
+  return `(점수) 최고 ${d.topScore.toFixed(2)} | 선택 ${d.clusters.length}/${total} 클러스터`;
+}
+
+// 쿼리(피드) × 페이지 단위 호출 리포트
+type LoopReport = {
+  query: string;
+  call_no: number; fetched: number; time_filtered: number;
+  title_include_fail: number; title_exclude_hit: number; title_include_pass: number;
+  new_count: number; seen_count: number; dup_count: number;
+  domain_blocked?: number; // 도메인 허용/차단 목록으로 제외
+  backfill?: boolean;      // 누락 구간 보충 호출
+};
+
+// 관리자 리포트용: 쿼리별로 묶은 루프 라인
+function buildLoopReportLines(loopReports: LoopReport[]): string[] {
+  const lines: string[] = [];
+  let lastQuery: string | null = null;
+  for (const r of loopReports) {
+    if (r.query !== lastQuery) {
+      lastQuery = r.query;
+      const qs = loopReports.filter(x => x.query === r.query);
+      const got = qs.reduce((s, x) => s + x.title_include_pass, 0);
+      lines.push(`🔎 ${escapeHtml(r.query)} — 통과 ${got}`);
+    }
+    const dup = r.dup_count > 0 ? ` 중복 ${r.dup_count}` : "";
+    const blocked = r.domain_blocked ? ` 도메인 ${r.domain_blocked}` : "";
+    lines.push(`(${r.backfill ? "보충 " : ""}${r.call_no}차) ${r.time_filtered} ← ${r.fetched} | 최신/호출 (신규 ${r.new_count}/기존 ${r.seen_count}${dup}${blocked})`);
+  }
+  return lines;
+}
+
+/* ───────────────────────── news sources ───────────────────────── */
+// 수집원이 돌려주는 원본 기사 (필터 전, description 포함)
+// link: 수집원이 준 기사 링크(네이버는 뷰어), originalLink: 언론사 원문 (네이버 originallink)
+type RawArticle = { title: string; description: string; link: string; originalLink?: string; pubUTC: Date };
+
+// 페이지 단위로 호출되는 수집 대상 (네이버 쿼리 하나, RSS 피드 하나 …)
+type SourceFeed = {
+  label: string;    // 리포트 표기
+  maxPages: number;
+  pageSize: number; // 이보다 적게 오면 마지막 페이지로 간주
+  fetchPage(page: number): Promise<RawArticle[] | SourceError>;
+  fetchAt?(start: number): Promise<RawArticle[] | SourceError>; // 임의 위치부터 (누락 구간 보충, 네이버만)
+  maxStart?: number;                                             // fetchAt start 상한
+};
+
+// 수집 실패 (HTTP 오류 등) — 리포트/통계용
+type SourceError = { error: string; status?: number; kind?: NaverErrorKind };
+const isSourceError = (r: RawArticle[] | SourceError): r is SourceError => !Array.isArray(r);
+
+// 네이버 검색 결과의 <b> 강조 제거 + 엔터티 디코드
+const stripNaverMarkup = (s: unknown) => decodeHtml(String(s || "").replace(/<\/?b>/g, ""));
+
+// 네이버 뉴스 검색: 검색어마다 별도 쿼리 (한 줄/항목 = 한 쿼리, 공백은 쿼리 안의 묶음)
+const NAVER_MAX_START = 1000; // 검색 API start 상한
+
+// ── 네이버 키 풀: 키별 일일 호출 수(KST 날짜) + 한도/인증 오류 시 다음 키로 전환
+const NAVER_DAILY_QUOTA = 25000;           // 검색 API 키당 일일 한도
+const KV_NAVER_USAGE_PREFIX = "naver:usage:"; // naver:usage:<KST 날짜> → NaverUsage
+const KV_ALERT_PREFIX = "alert:";          // alert:<종류>:<대상> → 같은 오류 알림 억제 (TTL)
+const NAVER_ALERT_THROTTLE_SEC = 6 * 3600;
+
+// auth: 키/권한(401·403), quota: 일일 한도(429/010), rate: 초당 처리율(429/012),
+// bad_request: 잘못된 요청(400, SE01~SE06), server: 네이버 장애(5xx, SE99), network: 응답 없음
+type NaverErrorKind = "auth" | "quota" | "rate" | "bad_request" | "server" | "network";
+type NaverCredential = { id: string; secret: string; label: string };
+type NaverUsage = Record<string, { calls: number; errors: number; exhausted?: NaverErrorKind }>;
+type NaverErrorEvent = { kind: NaverErrorKind; key: string; status?: number; code?: string; message: string };
+
+const NAVER_ERROR_LABEL: Record<NaverErrorKind, string> = {
+  auth: "인증 오류",
+  quota: "일일 한도 소진",
+  rate: "처리율 제한",
+  bad_request: "잘못된 요청",
+  server: "네이버 서버 오류",
+  network: "네트워크 오류",
+};
+
+function classifyNaverError(status: number, code?: string): NaverErrorKind {
+  if (status === 401 || status === 403) return "auth";
+  if (status === 429) return code === "012" ? "rate" : "quota";
+  if (status >= 500 || code === "SE99") return "server";
+  return "bad_request";
+}
+
+function naverCredentials(env: Env): NaverCredential[] {
+  const pairs: Array<[string, string]> = [[env.NAVER_CLIENT_ID, env.NAVER_CLIENT_SECRET]];
+  for (const item of parseListText(env.NAVER_KEYS)) {
+    const i = item.indexOf(":");
+    if (i > 0) pairs.push([item.slice(0, i).trim(), item.slice(i + 1).trim()]);
+  }
+  const seen = new Set<string>();
+  return pairs
+    .filter(([id, secret]) => id && secret && !seen.has(id) && seen.add(id))
+    .map(([id, secret]) => ({ id, secret, label: mask(id) }));
+}
+
+type NaverKeyPool = ReturnType<typeof createNaverKeyPool>;
+
+// 회차 단위 키 풀 — 사용량은 메모리에 모았다가 flush()에서 한 번만 KV에 씀
+function createNaverKeyPool(env: Env, nowUTC = new Date()) {
+  const creds = naverCredentials(env);
+  const usageKey = `${KV_NAVER_USAGE_PREFIX}${kstDateKey(nowUTC)}`;
+  let usage: NaverUsage | null = null;
+  const events: NaverErrorEvent[] = [];
+  const rateLimited = new Set<string>(); // 처리율 제한에 걸린 키 — 이번 회차에는 건너뜀
+
+  const load = async (): Promise<NaverUsage> => {
+    if (usage) return usage;
+    try {
+      usage = JSON.parse((await env.FCANEWS_KV.get(usageKey)) ?? "{}");
+    } catch {
+      usage = {};
+    }
+    return usage!;
+  };
+  const entry = (u: NaverUsage, c: NaverCredential) => (u[c.label] ??= { calls: 0, errors: 0 });
+  const usable = (u: NaverUsage, c: NaverCredential) => {
+    const e = u[c.label];
+    return !rateLimited.has(c.label) && (!e || (!e.exhausted && e.calls < NAVER_DAILY_QUOTA));
+  };
+
+  return {
+    creds,
+    events,
+    // 쓸 수 있는 첫 키 (오늘 소진/인증 실패 표시가 없고 한도 미만, 이번 회차에 처리율 제한이 안 걸림)
+    async current(): Promise<NaverCredential | null> {
+      const u = await load();
+      return creds.find(c => usable(u, c)) ?? null;
+    },
+    async count(c: NaverCredential) {
+      entry(await load(), c).calls++;
+    },
+    // 실패 기록 → 다른 키로 다시 시도할 만한 오류면 true
+    async fail(c: NaverCredential, ev: NaverErrorEvent): Promise<boolean> {
+      const u = await load();
+      const e = entry(u, c);
+      e.errors++;
+      events.push(ev);
+      if (ev.kind === "quota" || ev.kind === "auth") {
+        e.exhausted = ev.kind;
+        return true;
+      }
+      if (ev.kind === "rate") {
+        rateLimited.add(c.label);
+        return creds.some(k => usable(u, k));
+      }
+      return false;
+    },
+    async snapshot(): Promise<NaverUsage> {
+      return { ...(await load()) };
+    },
+    async flush() {
+      if (!usage) return; // 이번 회차에 네이버 호출 없음
+      await env.FCANEWS_KV.put(usageKey, JSON.stringify(usage), { expirationTtl: 3 * 86400 });
+    },
+  };
+}
+
+// 관리자 채팅: 네이버 오류 종류별 알림 (같은 종류·키는 NAVER_ALERT_THROTTLE_SEC 동안 한 번만)
+async function sendNaverErrorAlerts(env: Env, events: NaverErrorEvent[]): Promise<number> {
+  let sent = 0;
+  const uniq = new Map(events.map(e => [`${e.kind}:${e.key}`, e]));
+  for (const [key, ev] of uniq) {
+    if (ev.kind === "rate") continue; // 일시적 — 키 전환으로 처리
+    const throttleKey = `${KV_ALERT_PREFIX}naver:${key}`;
+    if (await env.FCANEWS_KV.get(throttleKey)) continue;
+    await sendTelegram(
+      [
+        `🔑 <b>네이버 API ${NAVER_ERROR_LABEL[ev.kind]}</b> (키 ${escapeHtml(ev.key)})`,
+        `${ev.status ? `HTTP ${ev.status}` : ""}${ev.code ? ` / ${escapeHtml(ev.code)}` : ""} ${escapeHtml(ev.message)}`.trim(),
+        `<i>같은 알림은 ${NAVER_ALERT_THROTTLE_SEC / 3600}시간 동안 생략</i>`,
+      ].join("\n"),
+      env.ADMIN_CHAT_ID,
+      env
+    );
+    await env.FCANEWS_KV.put(throttleKey, new Date().toISOString(), { expirationTtl: NAVER_ALERT_THROTTLE_SEC });
+    sent++;
+  }
+  return sent;
+}
+
+function fmtNaverUsage(usage: NaverUsage, creds: NaverCredential[]): string {
+  const parts = creds.map(c => {
+    const u = usage[c.label];
+    const state = u?.exhausted ? ` ${NAVER_ERROR_LABEL[u.exhausted]}` : "";
+    return `${escapeHtml(c.label)} ${u?.calls ?? 0}/${NAVER_DAILY_QUOTA}${state}`;
+  });
+  return `🔑 네이버 오늘 호출: ${parts.join(" | ")}`;
+}
+
+function naverFeeds(cfg: AppConfig, env: Env, pool: NaverKeyPool): SourceFeed[] {
+  const base = "https://openapi.naver.com/v1/search/news.json";
+  const DISPLAY = cfg.display_per_call;
+
+  return cfg.search_keywords.map(q => q.trim()).filter(Boolean).map(q => {
+    const fetchAt = async (start: number): Promise<RawArticle[] | SourceError> => {
+      const url = `${base}?query=${encodeURIComponent(q)}&display=${DISPLAY}&start=${start}&sort=date`;
+
+      // 한도/인증 오류면 다음 키로 재시도, 나머지 오류는 종류를 붙여 그대로 보고
+      let r: Response;
+      for (;;) {
+        const cred = await pool.current();
+        if (!cred) return { error: "사용 가능한 네이버 키 없음 (모두 한도 소진/인증 실패/처리율 제한)", status: 429, kind: "quota" };
+        try {
+          await pool.count(cred);
+          r = await fetch(url, {
+            method: "GET",
+            headers: {
+              "X-Naver-Client-Id": cred.id,
+              "X-Naver-Client-Secret": cred.secret,
+              "User-Agent": "Mozilla/5.0 (compatible; fcanews/1.0)",
+            },
+            cf: { cacheTtl: 0 },
+          });
+        } catch (e: any) {
+          const message = String(e?.message || e);
+          await pool.fail(cred, { kind: "network", key: cred.label, message });
+          return { error: message, kind: "network" };
+        }
+        if (r.ok) break;
+
+        const body = await r.text();
+        let code: string | undefined;
+        let message = body.slice(0, 200) || `HTTP ${r.status}`;
+        try {
+          const err = JSON.parse(body);
+          code = err?.errorCode ? String(err.errorCode) : undefined;
+          message = String(err?.errorMessage ?? message);
+        } catch {}
+        const kind = classifyNaverError(r.status, code);
+        console.error("NAVER error", cred.label, r.status, code, message);
+        if (!(await pool.fail(cred, { kind, key: cred.label, status: r.status, code, message }))) {
+          return { error: `${NAVER_ERROR_LABEL[kind]}: ${message}`, status: r.status, kind };
+        }
+      }
+      const data: any = await r.json();
+      const items: any[] = data?.items || [];
+
+      const out: RawArticle[] = [];
+      for (const it of items) {
+        const pubUTC = parsePubUTC(String(it?.pubDate || ""));
+        if (!pubUTC) continue;
+        out.push({
+          title: stripNaverMarkup(it?.title),
+          // 요약문(description): 제목 말줄임 보완용
+          description: stripNaverMarkup(it?.description),
+          link: normalizeUrl(String(it?.link || "").trim()),
+          originalLink: it?.originallink ? normalizeUrl(String(it.originallink).trim()) : undefined,
+          pubUTC,
+        });
+      }
+      return out;
+    };
+    return {
+      label: q,
+      maxPages: cfg.max_loops,
+      pageSize: DISPLAY,
+      maxStart: NAVER_MAX_START,
+      fetchPage: (page: number) => fetchAt((page - 1) * DISPLAY + 1),
+      fetchAt,
+    };
+  });
+}
+
+// RFC 822 날짜의 영문 약어 타임존 중 Date가 모르는 것 보정
+function parseFeedDate(raw: string): Date | null {
+  const s = raw.trim().replace(/\b(KST|JST)$/i, "+0900");
+  return s ? parsePubUTC(s) : null;
+}
+
+// <tag>…</tag> 내용 (CDATA 해제 + 엔터티 디코드). 네임스페이스 접두사 허용
+function xmlText(block: string, tags: string[]): string {
+  for (const tag of tags) {
+    const m = block.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "i"));
+    if (!m) continue;
+    const inner = m[1].replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1");
+    return decodeHtml(inner).replace(/<[^>]+>/g, " ").replace(/\s+/g, " ").trim();
+  }
+  return "";
+}
+
+// Atom <link href> (rel="alternate" 또는 rel 없음 우선) / RSS <link>url</link>
+function xmlLink(block: string): string {
+  const atomLinks = [...block.matchAll(/<link\b([^>]*?)\/?>/gi)]
+    .map(m => m[1])
+    .filter(attrs => /\bhref\s*=/.test(attrs));
+  const pick = atomLinks.find(a => !/\brel\s*=/.test(a) || /\brel\s*=\s*["']alternate["']/.test(a))
+    ?? atomLinks[0];
+  if (pick) {
+    const href = pick.match(/\bhref\s*=\s*["']([^"']+)["']/);
+    if (href) return decodeHtml(href[1]);
+  }
+  return xmlText(block, ["link", "guid"]);
+}
+
+// RSS 2.0 <item> / Atom <entry> 파서 (정규식 기반, Workers에는 DOMParser가 없음)
+function parseFeedXml(xml: string): RawArticle[] {
+  const blocks = xml.match(/<(item|entry)\b[\s\S]*?<\/\1>/gi) || [];
+  const out: RawArticle[] = [];
+  for (const b of blocks) {
+    const title = xmlText(b, ["title"]);
+    const link = xmlLink(b);
+    const pubUTC = parseFeedDate(xmlText(b, ["pubDate", "published", "updated", "dc:date"]));
+    if (!title || !link || !pubUTC) continue;
+    out.push({
+      title,
+      description: xmlText(b, ["description", "summary", "content"]),
+      link: normalizeUrl(link),
+      pubUTC,
+    });
+  }
+  return out;
+}
+
+function rssFeed(src: { name: string; url: string }): SourceFeed {
+  return {
+    label: src.name,
+    maxPages: 1, // 피드는 한 번에 전체를 준다
+    pageSize: Infinity,
+    async fetchPage() {
+      const r = await fetch(src.url, {
+        headers: { "User-Agent": "Mozilla/5.0 (compatible; fcanews/1.0)" },
+        cf: { cacheTtl: 0 },
+      });
+      if (!r.ok) {
+        console.error("RSS error", src.url, r.status);
+        return { error: `HTTP ${r.status}`, status: r.status };
+      }
+      return parseFeedXml(await r.text());
+    },
+  };
+}
+
+// 언론사 도메인 → 이름 (하위 도메인은 가장 긴 일치)
+const DEFAULT_PRESS_NAMES: Record<string, string> = {
+  "news.naver.com": "네이버뉴스",
+  "sports.naver.com": "네이버스포츠",
+  "yna.co.kr": "연합뉴스",
+  "newsis.com": "뉴시스",
+  "news1.kr": "뉴스1",
+  "chosun.com": "조선일보",
+  "sports.chosun.com": "스포츠조선",
+  "donga.com": "동아일보",
+  "sports.donga.com": "스포츠동아",
+  "joongang.co.kr": "중앙일보",
+  "hani.co.kr": "한겨레",
+  "mk.co.kr": "매일경제",
+  "sportsseoul.com": "스포츠서울",
+  "sportsworldi.com": "스포츠월드",
+  "isplus.com": "일간스포츠",
+  "osen.co.kr": "OSEN",
+  "xportsnews.com": "엑스포츠뉴스",
+  "starnewskorea.com": "스타뉴스",
+  "mydaily.co.kr": "마이데일리",
+  "joynews24.com": "조이뉴스24",
+  "spotvnews.co.kr": "스포티비뉴스",
+  "sportalkorea.com": "스포탈코리아",
+  "interfootball.co.kr": "인터풋볼",
+  "footballist.co.kr": "풋볼리스트",
+  "besteleven.com": "베스트일레븐",
+  "kyeonggi.com": "경기일보",
+  "kgnews.co.kr": "경기신문",
+};
+
+// host가 domain 자체이거나 그 하위 도메인
+const domainMatches = (host: string, domain: string) => host === domain || host.endsWith(`.${domain}`);
+
+function pressNameFor(host: string, links: LinkConfig): string | undefined {
+  let best: string | undefined;
+  let bestLen = 0;
+  for (const table of [DEFAULT_PRESS_NAMES, links.press_names]) {
+    for (const [domain, name] of Object.entries(table)) {
+      if (domain.length >= bestLen && domainMatches(host, domain)) { best = name; bestLen = domain.length; }
+    }
+  }
+  return best;
+}
+
+// 도메인 필터에 걸리면 이유(규칙) 반환
+function domainFilterHit(host: string, links: LinkConfig): string | null {
+  const blocked = links.block_domains.find(d => domainMatches(host, d));
+  if (blocked) return `block:${blocked}`;
+  if (links.allow_domains.length && !links.allow_domains.some(d => domainMatches(host, d))) return `allow:${host || "?"}`;
+  return null;
+}
+
+function buildSourceFeeds(cfg: AppConfig, env: Env, pool: NaverKeyPool): SourceFeed[] {
+  return cfg.sources.flatMap(src =>
+    src.type === "naver" ? naverFeeds(cfg, env, pool) : [rssFeed(src)]
+  );
+}
+
+/* ───────────────────────────── keyword rules ───────────────────────────── */
+// INCLUDE/EXCLUDE 항목 한 줄 = 규칙 하나. 평범한 단어/구절은 예전처럼 부분 문자열 매칭.
+//   안양 AND (축구 OR 경기)    — AND / OR / NOT(대문자), &&, ||, ! 와 괄호
+//   "FC 안양" NOT 시의회       — 따옴표 구절
+//   =김강                      — 단어 경계 매칭 (김강민 ✗, 김강이/김강은 ✓)
+//   /유병훈\s?감독/            — 정규식 (정규화된 소문자 텍스트 대상)
+//   title: … / desc: … / both: … — 규칙별 검사 범위 (기본: 포함=title, 제외=both)
+// ※ parseListText가 쉼표·#을 구분자/주석으로 쓰므로 규칙 안에는 쓰지 않는다
+type RuleScope = "title" | "desc" | "both";
+type RuleNode =
+  | { t: "text"; value: string; word: boolean }
+  | { t: "re"; re: RegExp }
+  | { t: "not"; a: RuleNode }
+  | { t: "and" | "or"; items: RuleNode[] };
+type KeywordRule = { src: string; scope: RuleScope; node: RuleNode };
+
+type RuleToken =
+  | { k: "op"; v: "AND" | "OR" | "NOT" }
+  | { k: "(" | ")" }
+  | { k: "word"; v: string; word: boolean }
+  | { k: "phrase"; v: string; word: boolean }
+  | { k: "re"; re: RegExp };
+
+function tokenizeRule(src: string): RuleToken[] {
+  const out: RuleToken[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const c = src[i];
+    if (/\s/.test(c)) { i++; continue; }
+    if (c === "(" || c === ")") { out.push({ k: c }); i++; continue; }
+    if (src.startsWith("&&", i)) { out.push({ k: "op", v: "AND" }); i += 2; continue; }
+    if (src.startsWith("||", i)) { out.push({ k: "op", v: "OR" }); i += 2; continue; }
+    if (c === "!") { out.push({ k: "op", v: "NOT" }); i++; continue; }
+
+    const word = c === "=";
+    const j = word ? i + 1 : i;
+    if (src[j] === '"') {
+      const end = src.indexOf('"', j + 1);
+      if (end < 0) throw new Error(`닫히지 않은 따옴표: ${src.slice(i)}`);
+      out.push({ k: "phrase", v: norm(src.slice(j + 1, end)), word });
+      i = end + 1;
+      continue;
+    }
+    if (!word && c === "/") {
+      let end = i + 1;
+      while (end < src.length && (src[end] !== "/" || src[end - 1] === "\\")) end++;
+      if (end >= src.length) throw new Error(`닫히지 않은 정규식: ${src.slice(i)}`);
+      const flags = (src.slice(end + 1).match(/^[a-z]*/) || [""])[0];
+      // g/y는 lastIndex를 남겨 같은 정규식의 다음 test()가 엉뚱한 위치부터 검사하므로 버림
+      const reFlags = flags.replace(/[gy]/g, "");
+      try {
+        out.push({ k: "re", re: new RegExp(src.slice(i + 1, end), reFlags.includes("i") ? reFlags : reFlags + "i") });
+      } catch (e: any) {
+        throw new Error(`정규식 오류: ${e?.message || e}`);
+      }
+      i = end + 1 + flags.length;
+      continue;
+    }
+
+    const m = src.slice(j).match(/^[^\s()"]+/);
+    const v = m ? m[0] : "";
+    if (!v) throw new Error(`해석할 수 없는 위치: ${src.slice(i)}`);
+    if (!word && (v === "AND" || v === "OR" || v === "NOT")) out.push({ k: "op", v });
+    else out.push({ k: "word", v: norm(v), word });
+    i = j + v.length;
+  }
+  return out;
+}
+
+// 재귀 하강: or := and (OR and)* / and := not ([AND] NOT… | AND not)* / not := NOT not | primary
+// 연산자 없이 이어진 단어들은 하나의 구절 ("fc 안양")로 본다 → 예전 목록과 호환
+function parseRuleExpr(tokens: RuleToken[]): RuleNode {
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const isOp = (v: string) => { const t = peek(); return t?.k === "op" && t.v === v; };
+
+  const parseOr = (): RuleNode => {
+    const items = [parseAnd()];
+    while (isOp("OR")) { pos++; items.push(parseAnd()); }
+    return items.length === 1 ? items[0] : { t: "or", items };
+  };
+  const parseAnd = (): RuleNode => {
+    const items = [parseNot()];
+    // "A NOT B"는 "A AND NOT B"로 본다
+    while (isOp("AND") || isOp("NOT")) {
+      if (isOp("AND")) pos++;
+      items.push(parseNot());
+    }
+    return items.length === 1 ? items[0] : { t: "and", items };
+  };
+  const parseNot = (): RuleNode => {
+    if (isOp("NOT")) { pos++; return { t: "not", a: parseNot() }; }
+    return parsePrimary();
+  };
+  const parsePrimary = (): RuleNode => {
+    const t = peek();
+    if (!t) throw new Error("규칙이 예상보다 일찍 끝남");
+    if (t.k === "(") {
+      pos++;
+      const node = parseOr();
+      if (peek()?.k !== ")") throw new Error("닫는 괄호 ')' 없음");
+      pos++;
+      return node;
+    }
+    if (t.k === "re") { pos++; return { t: "re", re: t.re }; }
+    if (t.k === "phrase") { pos++; return { t: "text", value: t.v, word: t.word }; }
+    if (t.k === "word") {
+      const words: string[] = [];
+      let word = false;
+      while (peek()?.k === "word") {
+        const w = tokens[pos++] as { v: string; word: boolean };
+        words.push(w.v);
+        word = word || w.word;
+      }
+      return { t: "text", value: words.join(" "), word };
+    }
+    throw new Error(`예상하지 못한 토큰: ${t.k === "op" ? t.v : t.k}`);
+  };
+
+  if (!tokens.length) throw new Error("빈 규칙");
+  const node = parseOr();
+  if (pos < tokens.length) throw new Error("규칙 끝에 남은 토큰이 있음");
+  return node;
+}
+
+// 구문 오류는 throw (봇 명령에서 즉시 안내용)
+function parseKeywordRule(src: string, defaultScope: RuleScope): KeywordRule {
+  const m = src.match(/^\s*(title|desc|both)\s*:\s*([\s\S]*)$/i);
+  const scope = m ? (m[1].toLowerCase() as RuleScope) : defaultScope;
+  return { src, scope, node: parseRuleExpr(tokenizeRule(m ? m[2] : src)) };
+}
+
+// 목록 전체 컴파일: 오류 규칙은 로그 후 원문 그대로의 부분 문자열 규칙으로 대체
+function compileRules(list: string[], defaultScope: RuleScope): KeywordRule[] {
+  return list.map(src => {
+    try {
+      return parseKeywordRule(src, defaultScope);
+    } catch (e) {
+      console.error("keyword rule parse error", src, e);
+      return { src, scope: defaultScope, node: { t: "text", value: norm(src), word: false } };
+    }
+  });
+}
+
+// 단어 경계 뒤에 허용하는 조사
+const KO_PARTICLES = ["으로", "에게", "까지", "부터", "이", "가", "은", "는", "을", "를", "의", "도", "와", "과", "에", "로", "만"];
+const isWordChar = (ch: string | undefined) => !!ch && /[0-9a-z가-힣]/.test(ch);
+
+function includesWord(text: string, value: string): boolean {
+  for (let at = text.indexOf(value); at >= 0; at = text.indexOf(value, at + 1)) {
+    if (isWordChar(text[at - 1])) continue;
+    const rest = text.slice(at + value.length);
+    if (!isWordChar(rest[0])) return true;
+    if (KO_PARTICLES.some(p => rest.startsWith(p) && !isWordChar(rest[p.length]))) return true;
+  }
+  return false;
+}
+
+function evalRuleNode(node: RuleNode, text: string): boolean {
+  switch (node.t) {
+    case "text": return node.word ? includesWord(text, node.value) : text.includes(node.value);
+    case "re": return node.re.test(text);
+    case "not": return !evalRuleNode(node.a, text);
+    case "and": return node.items.every(n => evalRuleNode(n, text));
+    case "or": return node.items.some(n => evalRuleNode(n, text));
+  }
+}
+
+// tNorm/dNorm: norm() 적용된 제목/요약문
+function matchRule(rule: KeywordRule, tNorm: string, dNorm: string): boolean {
+  const text = rule.scope === "title" ? tNorm : rule.scope === "desc" ? dNorm : `${tNorm}\n${dNorm}`;
+  return evalRuleNode(rule.node, text);
+}
+
+function findMatchingRule(rules: KeywordRule[], tNorm: string, dNorm: string): KeywordRule | null {
+  return rules.find(r => matchRule(r, tNorm, dNorm)) ?? null;
+}
+
+// 관리자 리포트: cfg:APP에서 무시된 항목
+function buildConfigWarningLines(warnings: ConfigIssue[], max = 5): string[] {
+  if (!warnings.length) return [];
+  const lines = [`⚠️ cfg:APP 오류 ${warnings.length}건 (해당 항목은 기본값/vars로 대체)`];
+  for (const w of warnings.slice(0, max)) lines.push(`• ${escapeHtml(w.path || "(root)")}: ${escapeHtml(w.message)}`);
+  return lines;
+}
+
+// 관리자 리포트: 제외 규칙에 걸린 기사 (규칙 이름과 함께)
+type Rejection = { title: string; link: string; stage: "domain" | "include" | "exclude"; rule: string | null };
+
+function buildRejectionLines(rejections: Rejection[], max = 10): string[] {
+  const excluded = rejections.filter(r => r.stage === "exclude");
+  if (!excluded.length) return [];
+  const lines = ["🚫 제외 규칙"];
+  for (const r of excluded.slice(0, max)) {
+    const t = r.title.length > 40 ? r.title.slice(0, 40) + "…" : r.title;
+    lines.push(`• <code>${escapeHtml(r.rule ?? "")}</code> ← ${escapeHtml(t)}`);
+  }
+  if (excluded.length > max) lines.push(`  … 외 ${excluded.length - max}건`);
+  return lines;
+}
+
+/* ───────────────────────── fetch + filter ───────────────────────── */
+// 누락 구간: MAX_LOOPS 안에 워터마크까지 못 닿은 쿼리는 커서를 남기고 다음 회차에 이어서 읽음.
+// 커서가 남아 있는 동안은 워터마크를 올리지 않는다 (구간을 건너뛰지 않도록)
+const KV_GAP_CURSORS = "gap:cursors"; // { 쿼리: GapCursor }
+
+type GapCursor = {
+  next_start: number; // 이어 읽을 위치 (네이버 start, 1부터)
+  newest: string;     // 커서 갱신 당시 가장 최신 기사 시각 — 다음 회차 위치 보정 기준
+  since: string;      // 메워야 할 하한 (구간이 생길 때의 워터마크 - grace)
+  opened_at: string;
+};
+type GapReport = { source: string; status: "opened" | "resumed" | "closed" | "abandoned"; next_start?: number; since: string };
+
+async function loadGapCursors(env: Env): Promise<Record<string, GapCursor>> {
+  try {
+    const raw = await env.FCANEWS_KV.get(KV_GAP_CURSORS);
+    return raw ? JSON.parse(raw) : {};
+  } catch (e) {
+    console.error("gap cursors parse error", e);
+    return {};
+  }
+}
+
+async function saveGapCursors(env: Env, cursors: Record<string, GapCursor>): Promise<void> {
+  if (!Object.keys(cursors).length) await env.FCANEWS_KV.delete(KV_GAP_CURSORS);
+  else await env.FCANEWS_KV.put(KV_GAP_CURSORS, JSON.stringify(cursors));
+}
+
+function buildGapLines(gaps: GapReport[], timeZone: string): string[] {
+  const label: Record<GapReport["status"], string> = {
+    opened: "누락 구간 발견 — 다음 회차부터 보충",
+    resumed: "누락 구간 보충 중",
+    closed: "누락 구간 보충 완료",
+    abandoned: "누락 구간 포기 (검색 start 1000 초과)",
+  };
+  return gaps.map(g => {
+    const pos = g.next_start ? `, 다음 start ${g.next_start}` : "";
+    return `🕳️ ${escapeHtml(g.source)}: ${label[g.status]} (${fmtClockLabel(new Date(g.since), timeZone)} 이후${pos})`;
+  });
+}
+
+/* ───────────────────────── record & replay ───────────────────────── */
+// 회차마다 수집원 원본 응답 + 시작 상태(워터마크/seen-set/커서)를 묶어 보관 → /replay에서 다른 설정으로 재실행.
+// 묶음만 있으면 KV/네트워크 없이 searchRecentNews를 돌릴 수 있어 고정 입력(fixture) 검증에도 씀
+const KV_REPLAY_PREFIX = "replay:";        // replay:<회차 ISO> → ReplayBundle
+const KV_REPLAY_INDEX = "replay:index";    // 최근 회차 목록 (ReplayIndexEntry[])
+const REPLAY_KEEP = 36;                    // 2시간 주기 기준 3일
+const REPLAY_TTL_SEC = 3 * 86400;
+
+type RecordedArticle = { title: string; description: string; link: string; originalLink?: string; pub: string };
+type RecordedPage = RecordedArticle[] | SourceError;
+type RecordedFeed = {
+  label: string;
+  maxPages: number;
+  pageSize: number;
+  maxStart?: number;
+  seekable: boolean;                   // fetchAt 지원 (누락 구간 보충 대상)
+  pages: Record<string, RecordedPage>; // fetchPage(page)
+  at: Record<string, RecordedPage>;    // fetchAt(start)
+};
+export type ReplayBundle = {
+  version: 1;
+  recorded_at: string;
+  cfg: AppConfig; // 수집 당시 실제 적용 설정 (매치데이 프로필 포함)
+  state: { last_checked: string | null; seen: SeenStore; gap_cursors: Record<string, GapCursor> };
+  feeds: RecordedFeed[];
+};
+type ReplayIndexEntry = { id: string; recorded_at: string; feeds: number; pages: number };
+
+const toRecorded = (res: RawArticle[] | SourceError): RecordedPage =>
+  isSourceError(res)
+    ? res
+    : res.map(({ title, description, link, originalLink, pubUTC }) => ({ title, description, link, originalLink, pub: pubUTC.toISOString() }));
+
+const fromRecorded = (page: RecordedPage): RawArticle[] | SourceError =>
+  Array.isArray(page)
+    ? page.map(({ pub, ...rest }) => ({ ...rest, pubUTC: new Date(pub) }))
+    : page;
+
+// 실제 수집원을 감싸 응답을 그대로 적어 둠
+function recordingFeed(feed: SourceFeed, rec: RecordedFeed): SourceFeed {
+  const wrap = (bucket: Record<string, RecordedPage>, key: number, res: RawArticle[] | SourceError) => {
+    bucket[String(key)] = toRecorded(res);
+    return res;
+  };
+  return {
+    ...feed,
+    fetchPage: async page => wrap(rec.pages, page, await feed.fetchPage(page)),
+    fetchAt: feed.fetchAt && (async start => wrap(rec.at, start, await feed.fetchAt!(start))),
+  };
+}
+
+// 녹화본을 수집원처럼 재생 — 녹화에 없는 위치는 오류로 보고 (설정이 바뀌어 더 깊이 읽으려는 경우)
+function replayFeed(rec: RecordedFeed): SourceFeed {
+  const play = (bucket: Record<string, RecordedPage>, key: number, what: string) => {
+    const page = bucket[String(key)];
+    return page ? fromRecorded(page) : { error: `녹화에 없는 ${what} ${key}` };
+  };
+  return {
+    label: rec.label,
+    maxPages: rec.maxPages,
+    pageSize: rec.pageSize,
+    maxStart: rec.maxStart,
+    fetchPage: async page => play(rec.pages, page, "page"),
+    fetchAt: rec.seekable ? async start => play(rec.at, start, "start") : undefined,
+  };
+}
+
+async function saveReplayBundle(env: Env, id: string, bundle: ReplayBundle): Promise<void> {
+  await env.FCANEWS_KV.put(`${KV_REPLAY_PREFIX}${id}`, JSON.stringify(bundle), { expirationTtl: REPLAY_TTL_SEC });
+  const entry: ReplayIndexEntry = {
+    id,
+    recorded_at: bundle.recorded_at,
+    feeds: bundle.feeds.length,
+    pages: bundle.feeds.reduce((s, f) => s + Object.keys(f.pages).length + Object.keys(f.at).length, 0),
+  };
+  const index = (await loadReplayIndex(env)).filter(e => e.id !== id);
+  await env.FCANEWS_KV.put(KV_REPLAY_INDEX, JSON.stringify([entry, ...index].slice(0, REPLAY_KEEP)));
+}
+
+async function loadReplayIndex(env: Env): Promise<ReplayIndexEntry[]> {
+  try {
+    return JSON.parse((await env.FCANEWS_KV.get(KV_REPLAY_INDEX)) ?? "[]");
+  } catch {
+    return [];
+  }
+}
+
+async function loadReplayBundle(env: Env, id: string): Promise<ReplayBundle | null> {
+  const raw = await env.FCANEWS_KV.get(`${KV_REPLAY_PREFIX}${id}`);
+  return raw ? JSON.parse(raw) : null;
+}
+
+// override: 저장하지 않은 설정으로 돌려보기 (/config dry-run)
+// replay: 녹화본의 응답/상태로 돌려보기 (KV·네트워크 사용 안 함, /replay)
+export async function searchRecentNews(env: Env, override?: AppConfig, replay?: ReplayBundle) {
+  const { cfg, warnings: cfgWarnings } = override
+    ? { cfg: override, warnings: [] as ConfigIssue[] }
+    : await loadConfigChecked(env);
+  const naverPool = createNaverKeyPool(env);
+  const recording: ReplayBundle | null = replay ? null : {
+    version: 1,
+    recorded_at: new Date().toISOString(),
+    cfg,
+    state: { last_checked: null, seen: {}, gap_cursors: {} },
+    feeds: [],
+  };
+  const feeds = replay
+    ? replay.feeds.map(replayFeed)
+    : buildSourceFeeds(cfg, env, naverPool).map(feed => {
+        const rec: RecordedFeed = {
+          label: feed.label, maxPages: feed.maxPages, pageSize: feed.pageSize, maxStart: feed.maxStart,
+          seekable: !!feed.fetchAt, pages: {}, at: {},
+        };
+        recording!.feeds.push(rec);
+        return recordingFeed(feed, rec);
+      });
+  const includeRules = compileRules(cfg.include_keywords, "title");
+  const excludeRules = compileRules(cfg.exclude_keywords, "both");
+
+  const lastCheckedUTC = replay ? replay.state.last_checked : await env.FCANEWS_KV.get(KV_LAST_CHECKED);
+  const lastChecked = lastCheckedUTC ? new Date(lastCheckedUTC) : null;
+  // 워터마크는 하한선으로만 사용: 늦게 색인된 기사를 위해 grace 만큼 더 본다
+  const lowerBound = lastChecked
+    ? new Date(lastChecked.getTime() - cfg.late_grace_hours * 3600 * 1000)
+    : null;
+
+  const seenStore: SeenStore = replay ? structuredClone(replay.state.seen) : await loadSeen(env);
+  const seenMarks: Array<{ keys: string[]; link: string }> = []; // 이번 회차에 확인한 기사
+
+  const collected: ArticleItem[] = [];
+  const loopReports: LoopReport[] = [];
+  const rejections: Rejection[] = [];
+  const sourceErrors: Array<SourceError & { source: string; page: number }> = [];
+  const pubTimesUTC: Date[] = [];
+  const handled = new Set<string>(); // 이번 회차에 이미 처리한 링크 (쿼리 간 중복)
+
+  // 누락 구간 커서: 읽기만 하고 저장은 호출한 쪽(scheduled)에서 — 미리보기/dry-run은 상태를 바꾸지 않음
+  const prevCursors = replay ? replay.state.gap_cursors : await loadGapCursors(env);
+  if (recording) {
+    // 시작 상태는 수집 전에 떠 둠 (seenStore는 호출한 쪽에서 갱신되므로 복사)
+    recording.state = { last_checked: lastCheckedUTC, seen: structuredClone(seenStore), gap_cursors: prevCursors };
+  }
+  const nextCursors: Record<string, GapCursor> = {};
+  const gaps: GapReport[] = [];
+
+  // 한 페이지 분량 처리 → 수집/리포트 반영. stopAt 이하(이전) 기사를 만나면 reachedStop
+  const processPage = (items: RawArticle[], stopAt: Date | null, query: string, call_no: number, backfill = false) => {
+    let reachedStop = false;
+    let fetched = items.length, time_filtered = 0, title_include_fail = 0, title_exclude_hit = 0;
+    let new_count = 0, seen_count = 0, dup_count = 0, domain_blocked = 0;
+
+    for (const { title, description, link: srcLink, originalLink, pubUTC } of items) {
+      // 시간 필터: UTC 비교 (<= 하한선 제외)
+      if (stopAt && pubUTC.getTime() <= stopAt.getTime()) {
+        reachedStop = true;
+        continue;
+      }
+
+      // 표시 링크 선택 (원문 우선이면 originallink) — 나머지 하나는 중복 판정에만 씀
+      const link = cfg.links.prefer === "original" && originalLink ? originalLink : srcLink;
+      const altLink = link === srcLink ? originalLink : srcLink;
+
+      // 앞선 쿼리(또는 페이지, 다른 수집원)에서 이미 본 기사 — 네이버/원문 URL 어느 쪽이든
+      if (handled.has(link) || (altLink && handled.has(altLink))) { dup_count++; continue; }
+      handled.add(link);
+      if (altLink) handled.add(altLink);
+
+      // 언론사 도메인 필터 (원문 URL 기준)
+      const domain = shortHostname(originalLink || srcLink);
+      const domainHit = domainFilterHit(domain, cfg.links);
+      if (domainHit) {
+        domain_blocked++;
+        rejections.push({ title, link, stage: "domain", rule: domainHit });
+        continue;
+      }
+
+      // seen-set: 이미 발송한 기사는 제외, 본 적만 있는 기사는 계속 후보
+      const keys = seenKeysFor(title, link, altLink);
+      const prev = lookupSeen(seenStore, keys);
+      if (prev) seen_count++; else new_count++;
+      if (prev === "sent") continue;
+      seenMarks.push({ keys, link });
+
+      time_filtered++;
+      pubTimesUTC.push(pubUTC);
+
+      // 검사용 텍스트 정규화
+      const tNorm = norm(title);
+      const dNorm = norm(description); // [추가] 요약문 정규화
+
+      // 포함 규칙 (기본 범위: 제목) — 하나라도 맞으면 통과, 맞은 규칙들의 가중치는 점수로
+      const matched = includeRules.filter(r => matchRule(r, tNorm, dNorm));
+      if (includeRules.length && !matched.length) {
+        title_include_fail++;
+        rejections.push({ title, link, stage: "include", rule: null });
+        continue;
+      }
+
+      // 제외 규칙 (기본 범위: 제목+요약문) — 하나라도 맞으면 제외
+      const excludedBy = findMatchingRule(excludeRules, tNorm, dNorm);
+      if (excludedBy) {
+        title_exclude_hit++;
+        rejections.push({ title, link, stage: "exclude", rule: excludedBy.src });
+        continue;
+      }
+
+      collected.push({
+        title, link, pubUTC, description,
+        kw: keywordScore(matched, includeRules.length > 0, cfg.scoring.keyword_weights),
+        domain,
+        press: pressNameFor(domain, cfg.links),
+      });
+    }
+
+    loopReports.push({
+      query,
+      call_no,
+      fetched,
+      time_filtered,
+      title_include_fail,
+      title_exclude_hit,
+      // ⛔ 제외필터 적용 전 제목 통과 수 (사용자 의도 유지)
+      title_include_pass: Math.max(0, time_filtered - title_include_fail),
+      new_count,
+      seen_count,
+      dup_count,
+      domain_blocked,
+      backfill: backfill || undefined,
+    });
+    return { reachedStop };
+  };
+
+  for (const feed of feeds) {
+    // 지난 회차에 남은 누락 구간: 최신 쪽은 커서를 만든 시점(newest)까지만 읽고, 나머지는 커서 위치부터 이어 읽음
+    const cursor = feed.fetchAt && lowerBound ? prevCursors[feed.label] : undefined;
+    const cursorNewest = cursor ? new Date(cursor.newest) : null;
+    const freshStop = cursorNewest && (!lowerBound || cursorNewest > lowerBound) ? cursorNewest : lowerBound;
+
+    let reached = false;      // freshStop(워터마크/커서 기준점)까지 닿았는지
+    let exhausted = false;    // MAX_LOOPS를 다 쓰도록 꽉 찬 페이지만 받음
+    let offset = 0;           // 지금까지 읽은 건수 (= 다음 start - 1)
+    let shift = 0;            // 커서 기준점 이후 새로 올라온 기사 수 (커서 위치 보정)
+    let newest: Date | null = null;
+
+    for (let page = 1; page <= feed.maxPages; page++) {
+      const res = await feed.fetchPage(page).catch((e: any): SourceError => ({ error: String(e?.message || e) }));
+      if (isSourceError(res)) {
+        sourceErrors.push({ source: feed.label, page, ...res });
+        break;
+      }
+      const items = res;
+      if (!items.length) break;
+
+      offset += items.length;
+      for (const it of items) {
+        if (!newest || it.pubUTC > newest) newest = it.pubUTC;
+        if (cursorNewest && it.pubUTC > cursorNewest) shift++;
+      }
+      if (processPage(items, freshStop, feed.label, page).reachedStop) { reached = true; break; }
+      if (items.length < feed.pageSize) break;
+      if (page === feed.maxPages) exhausted = true;
+    }
+
+    if (!feed.fetchAt || !lowerBound) continue;
+
+    if (!cursor) {
+      // 워터마크에 닿기 전에 페이지가 끝남 → 누락 구간. 다음 회차부터 이어 읽기
+      if (exhausted && !reached) {
+        const next: GapCursor = {
+          next_start: offset + 1,
+          newest: (newest ?? lowerBound).toISOString(),
+          since: lowerBound.toISOString(),
+          opened_at: new Date().toISOString(),
+        };
+        nextCursors[feed.label] = next;
+        gaps.push({ source: feed.label, status: "opened", next_start: next.next_start, since: next.since });
+      }
+      continue;
+    }
+
+    // 커서 이어 읽기: 기준점까지 닿았으면 그새 올라온 만큼 밀린 위치, 못 닿았으면 방금 읽은 곳 바로 뒤부터
+    //   (위치를 적게 잡으면 이미 본 기사를 다시 읽을 뿐 — 건너뛰지는 않음)
+    let start = reached ? cursor.next_start + shift : offset + 1;
+    const since = new Date(cursor.since);
+    let status: GapReport["status"] = "resumed";
+    for (let n = 1; n <= feed.maxPages; n++) {
+      if (start > (feed.maxStart ?? Infinity)) { status = "abandoned"; break; }
+      const res = await feed.fetchAt(start).catch((e: any): SourceError => ({ error: String(e?.message || e) }));
+      if (isSourceError(res)) {
+        sourceErrors.push({ source: `${feed.label} (보충)`, page: n, ...res });
+        break;
+      }
+      start += res.length;
+      const { reachedStop } = processPage(res, since, feed.label, n, true);
+      if (reachedStop || res.length < feed.pageSize) { status = "closed"; break; }
+    }
+
+    if (status === "resumed") {
+      nextCursors[feed.label] = {
+        ...cursor,
+        next_start: start,
+        newest: (newest && newest > cursorNewest! ? newest : cursorNewest!).toISOString(),
+      };
+    }
+    gaps.push({ source: feed.label, status, next_start: status === "resumed" ? start : undefined, since: cursor.since });
+  }
+
+  // 네이버 호출 수는 미리보기/dry-run 호출도 한도를 쓰므로 항상 기록
+  await naverPool.flush();
+
+  const latestUTC = pubTimesUTC.length ? pubTimesUTC.reduce((a, b) => a > b ? a : b) : null;
+  const earliestUTC = pubTimesUTC.length ? pubTimesUTC.reduce((a, b) => a < b ? a : b) : null;
+
+  function fmtLocalLabel(dUTC: Date | null) {
+    if (!dUTC) return "N/A";
+    const c = localClock(dUTC, cfg.schedule.timezone);
+    return `${c.date.slice(5)}(${pad(c.hour)}:${pad(c.minute)})`;
+  }
+
+  const latestStr = fmtLocalLabel(latestUTC);
+  const earliestStr = fmtLocalLabel(earliestUTC);
+
+  return {
+    cfg, cfgWarnings, collected, loopReports, rejections, sourceErrors,
+    latestStr, earliestStr, latestUTC, seenStore, seenMarks,
+    gaps, gapCursors: nextCursors,
+    naverPool, recording,
+  };
+}
+
+/* ───────────────────────── schedule policy ───────────────────────── */
+// 발송 정책: 시간대(IANA) 기준으로 조용한 시간 → 요일별 발송 창 → 창별 기준 건수/강제 시간 순으로 판단
+type SendWindow = {
+  days?: number[];        // 0=일 … 6=토, 없으면 매일
+  start: number;          // 시작 시 (포함)
+  end: number;            // 끝 시 (미포함), start보다 작으면 자정을 넘김
+  min_send?: number;      // 없으면 min_send_threshold
+  force_hours?: number[]; // 없으면 force_hours
+};
+type SchedulePolicy = {
+  timezone: string;
+  quiet_hours: { start: number; end: number } | null; // 이 시간대에는 발송하지 않음
+  windows: SendWindow[];                               // 비어 있으면 하루 종일 기본값
+};
+
+const DEFAULT_SCHEDULE: SchedulePolicy = { timezone: "Asia/Seoul", quiet_hours: null, windows: [] };
+
+function parseSchedule(raw: any): SchedulePolicy {
+  if (!raw || typeof raw !== "object") return DEFAULT_SCHEDULE;
+  const hour = (v: any, def: number) => parseNumber(v, def, 0, 24);
+  return {
+    timezone: typeof raw.timezone === "string" && raw.timezone ? raw.timezone : DEFAULT_SCHEDULE.timezone,
+    quiet_hours: raw.quiet_hours ? { start: hour(raw.quiet_hours.start, 0), end: hour(raw.quiet_hours.end, 0) } : null,
+    windows: Array.isArray(raw.windows)
+      ? raw.windows.map((w: any): SendWindow => ({
+          days: Array.isArray(w?.days) ? w.days.map(Number) : undefined,
+          start: hour(w?.start, 0),
+          end: hour(w?.end, 24),
+          min_send: w?.min_send === undefined ? undefined : parseNumber(w.min_send, 1, 0, 100),
+          force_hours: Array.isArray(w?.force_hours) ? w.force_hours.map(Number) : undefined,
+        }))
+      : [],
+  };
+}
+
+const isValidTimeZone = (tz: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// 해당 시간대의 날짜(YYYY-MM-DD)/요일/시/분/초
+const tzFormatters = new Map<string, Intl.DateTimeFormat>();
+function localClock(dUTC: Date, timeZone: string): { date: string; weekday: number; hour: number; minute: number; second: number } {
+  let f = tzFormatters.get(timeZone);
+  if (!f) {
+    f = new Intl.DateTimeFormat("en-US", {
+      timeZone, year: "numeric", month: "2-digit", day: "2-digit", weekday: "short",
+      hour: "numeric", minute: "numeric", second: "numeric", hourCycle: "h23",
+    });
+    tzFormatters.set(timeZone, f);
+  }
+  const parts = Object.fromEntries(f.formatToParts(dUTC).map(p => [p.type, p.value]));
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(parts.weekday),
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+  };
+}
+
+// [start, end) 시간 범위 (자정 넘김 지원)
+const inHourRange = (h: number, start: number, end: number) =>
+  start <= end ? h >= start && h < end : h >= start || h < end;
+
+function computeShouldSend(
+  localHour: number,
+  candidateCount: number,
+  minSend: number,
+  forceHours: number[],
+  topScore = 0,
+  alertScore = 0
+) {
+  // 점수가 아주 높은 기사 하나면 건수와 무관하게 발송
+  if (alertScore > 0 && candidateCount > 0 && topScore >= alertScore) return true;
+  const FORCED = new Set(forceHours);
+  return FORCED.has(localHour)
+    ? (candidateCount >= 1)
+    : (candidateCount >= minSend);
+}
+
+type SendDecision = { send: boolean; reason: string };
+
+function evaluateSchedule(nowUTC: Date, cfg: AppConfig, candidateCount: number, topScore: number): SendDecision {
+  const sp = cfg.schedule;
+  const { weekday, hour } = localClock(nowUTC, sp.timezone);
+
+  if (sp.quiet_hours && inHourRange(hour, sp.quiet_hours.start, sp.quiet_hours.end)) {
+    return { send: false, reason: `조용한 시간 ${sp.quiet_hours.start}~${sp.quiet_hours.end}시` };
+  }
+
+  let minSend = cfg.min_send_threshold;
+  let forceHours = cfg.force_hours;
+  let label = "기본";
+  if (sp.windows.length) {
+    const idx = sp.windows.findIndex(w => (!w.days || w.days.includes(weekday)) && inHourRange(hour, w.start, w.end));
+    if (idx < 0) return { send: false, reason: "발송 창 밖" };
+    const w = sp.windows[idx];
+    minSend = w.min_send ?? minSend;
+    forceHours = w.force_hours ?? forceHours;
+    label = `창#${idx + 1}`;
+  }
+
+  const send = computeShouldSend(hour, candidateCount, minSend, forceHours, topScore, cfg.scoring.alert_score);
+  const forced = forceHours.includes(hour);
+  return { send, reason: `${label} ${hour}시 ${forced ? "강제" : `기준 ${minSend}건`}` };
+}
+
+// 회차 식별자: cron 예정 시각(분 단위). 주기와 무관하게 같은 회차 재실행만 걸러낸다
+const slotIdOf = (scheduledTime: number) => new Date(Math.floor(scheduledTime / 60000) * 60000).toISOString();
+
+// cron 분/시 필드 한 칸 → 허용 값 (*, */n, a-b, a-b/n, a,b). 일/월/요일 필드는 * 로 가정
+function cronFieldValues(field: string, max: number): Set<number> {
+  const out = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepRaw] = part.split("/");
+    const step = stepRaw ? Number(stepRaw) : 1;
+    let [lo, hi] = range === "*" ? [0, max] : range.split("-").map(Number);
+    if (hi === undefined) hi = stepRaw ? max : lo;
+    for (let v = lo; v <= hi; v += step) out.add(v);
+  }
+  return out;
+}
+
+// 다음 cron 실행 시각 (UTC, 최대 48시간 앞까지)
+function nextCronTime(cron: string, fromUTC: Date): Date | null {
+  const [minF, hourF] = cron.trim().split(/\s+/);
+  if (!minF || !hourF) return null;
+  const mins = cronFieldValues(minF, 59);
+  const hours = cronFieldValues(hourF, 23);
+  const t = new Date(Math.floor(fromUTC.getTime() / 60000) * 60000 + 60000);
+  for (let i = 0; i < 48 * 60; i++, t.setTime(t.getTime() + 60000)) {
+    if (mins.has(t.getUTCMinutes()) && hours.has(t.getUTCHours())) return new Date(t);
+  }
+  return null;
+}
+
+// 마지막 cron 실행 시각 (UTC, atUTC 포함 최대 48시간 전까지)
+function prevCronTime(cron: string, atUTC: Date): Date | null {
+  const [minF, hourF] = cron.trim().split(/\s+/);
+  if (!minF || !hourF) return null;
+  const mins = cronFieldValues(minF, 59);
+  const hours = cronFieldValues(hourF, 23);
+  const t = new Date(Math.floor(atUTC.getTime() / 60000) * 60000);
+  for (let i = 0; i < 48 * 60; i++, t.setTime(t.getTime() - 60000)) {
+    if (mins.has(t.getUTCMinutes()) && hours.has(t.getUTCHours())) return new Date(t);
+  }
+  return null;
+}
+
+/* ───────────────────────── match-day mode ───────────────────────── */
+// 경기 일정(ICS/JSON)을 KV에 보관 → 킥오프 전후 구간에는 매치데이 프로필로 수집/발송
+const KV_FIXTURES = "fixtures";    // Fixture[] (킥오프 순)
+const FIXTURES_MAX = 200;
+const FIXTURE_KEEP_MS = 86400000;  // 지난 경기는 하루 뒤 정리
+
+type Fixture = {
+  opponent: string;
+  kickoff: string;        // UTC ISO
+  competition?: string;
+  venue?: "home" | "away";
+  keywords?: string[];    // 상대 팀 별칭 (include 규칙에 추가)
+};
+
+type MatchDayConfig = {
+  enabled: boolean;
+  team_names: string[];   // ICS SUMMARY에서 우리 팀을 가려내는 이름들
+  hours_before: number;   // 킥오프 전 매치데이 시작
+  hours_after: number;    // 킥오프 후 매치데이 종료
+  min_send: number;       // 매치데이 min_send_threshold
+  force_offsets: number[]; // 킥오프 기준 강제 발송 시각(시간 단위, 예: -1 = 라인업, 2 = 종료 직후)
+};
+
+const DEFAULT_MATCH_DAY: MatchDayConfig = {
+  enabled: true,
+  team_names: ["FC안양", "안양", "FC Anyang", "Anyang"],
+  hours_before: 6,
+  hours_after: 4,
+  min_send: 1,
+  force_offsets: [-1, 2],
+};
+
+function parseMatchDay(raw: any): MatchDayConfig {
+  if (!raw || typeof raw !== "object") return DEFAULT_MATCH_DAY;
+  return {
+    enabled: raw.enabled === undefined ? DEFAULT_MATCH_DAY.enabled : Boolean(raw.enabled),
+    team_names: Array.isArray(raw.team_names) ? raw.team_names.map(String) : DEFAULT_MATCH_DAY.team_names,
+    hours_before: parseNumber(raw.hours_before, DEFAULT_MATCH_DAY.hours_before, 0, 48),
+    hours_after: parseNumber(raw.hours_after, DEFAULT_MATCH_DAY.hours_after, 0, 48),
+    min_send: parseNumber(raw.min_send, DEFAULT_MATCH_DAY.min_send, 0, 100),
+    force_offsets: Array.isArray(raw.force_offsets) ? raw.force_offsets.map(Number) : DEFAULT_MATCH_DAY.force_offsets,
+  };
+}
+
+// 지금 매치데이 구간에 있는 경기 (가장 가까운 킥오프)
+function activeFixture(fixtures: Fixture[], nowUTC: Date, md: MatchDayConfig): Fixture | null {
+  if (!md.enabled) return null;
+  const now = nowUTC.getTime();
+  let best: Fixture | null = null;
+  for (const f of fixtures) {
+    const ko = Date.parse(f.kickoff);
+    if (now < ko - md.hours_before * 3600000 || now > ko + md.hours_after * 3600000) continue;
+    if (!best || Math.abs(ko - now) < Math.abs(Date.parse(best.kickoff) - now)) best = f;
+  }
+  return best;
+}
+
+// 킥오프 기준 강제 시각 → 실제로 도는 cron 회차 (그 시각이거나 직전 회차; cron을 못 읽으면 그 시각 그대로)
+function matchDayForceSlots(f: Fixture, md: MatchDayConfig, cron: string) {
+  const ko = Date.parse(f.kickoff);
+  return md.force_offsets.map(offset => {
+    const at = new Date(ko + offset * 3600000);
+    return { offset, at, slot: prevCronTime(cron, at) ?? at };
+  });
+}
+
+// 매치데이 프로필: 기준 건수 낮춤 + 킥오프 기준 강제 시각 추가 + 상대 팀 include.
+// 경기 시간은 조용한 시간/발송 창보다 우선 (새벽 킥오프 대비)
+function applyMatchDayProfile(cfg: AppConfig, f: Fixture, cron: string): AppConfig {
+  const md = cfg.match_day;
+  const extraHours = matchDayForceSlots(f, md, cron).map(s => localClock(s.slot, cfg.schedule.timezone).hour);
+  const opponentRules = [f.opponent, ...(f.keywords ?? [])].map(quoteRuleTerm);
+  return {
+    ...cfg,
+    min_send_threshold: md.min_send,
+    force_hours: [...new Set([...cfg.force_hours, ...extraHours])],
+    // include가 비어 있으면 이미 전부 통과 — 상대 팀 규칙을 넣으면 오히려 좁아짐
+    include_keywords: cfg.include_keywords.length
+      ? [...cfg.include_keywords, ...opponentRules.filter(r => !cfg.include_keywords.includes(r))]
+      : cfg.include_keywords,
+    schedule: { ...cfg.schedule, quiet_hours: null, windows: [] },
+  };
+}
+
+// 규칙 문법(AND/OR/NOT, 괄호)과 겹치지 않게 따옴표로 감싼 리터럴
+const quoteRuleTerm = (s: string) => `"${s.replace(/"/g, "")}"`;
+
+// 다이제스트 머리말 (일반 텍스트 — 전달 채널별로 알맞게 감쌈)
+function fmtFixtureLabel(f: Fixture, timeZone: string): string {
+  const ko = new Intl.DateTimeFormat("ko-KR", {
+    timeZone, month: "numeric", day: "numeric", weekday: "short", hour: "2-digit", minute: "2-digit", hourCycle: "h23",
+  }).format(new Date(f.kickoff));
+  const meta = [f.competition, f.venue === "home" ? "홈" : f.venue === "away" ? "원정" : ""].filter(Boolean).join(" · ");
+  return `⚽ 매치데이 vs ${f.opponent} — 킥오프 ${ko}${meta ? ` (${meta})` : ""}`;
+}
+
+async function loadFixtures(env: Env): Promise<Fixture[]> {
+  try {
+    const raw = await env.FCANEWS_KV.get(KV_FIXTURES);
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.error("fixtures parse error", e);
+    return [];
+  }
+}
+
+// 이번 회차 설정: 저장된 설정 + (매치데이면) 매치데이 프로필
+async function loadRunConfig(env: Env, nowUTC: Date, cron?: string) {
+  const { cfg, warnings } = await loadConfigChecked(env);
+  const fixture = activeFixture(await loadFixtures(env), nowUTC, cfg.match_day);
+  if (!fixture) return { cfg, warnings, fixture };
+  const runCron = cron || (await env.FCANEWS_KV.get(KV_LAST_CRON)) || DEFAULT_CRON;
+  return { cfg: applyMatchDayProfile(cfg, fixture, runCron), warnings, fixture };
+}
+
+// force_offsets 중 cron 회차와 맞지 않아 앞 회차로 당겨지는 시각 (/fixtures 경고)
+function fixtureSlotWarnings(fixtures: Fixture[], md: MatchDayConfig, cron: string, timeZone: string): ConfigIssue[] {
+  const out: ConfigIssue[] = [];
+  fixtures.forEach((f, i) => {
+    for (const [j, s] of matchDayForceSlots(f, md, cron).entries()) {
+      const want = localClock(s.at, timeZone);
+      const got = localClock(s.slot, timeZone);
+      if (want.date === got.date && want.hour === got.hour) continue;
+      out.push({
+        path: `fixtures[${i}].force_offsets[${j}]`,
+        message: `킥오프 ${s.offset >= 0 ? "+" : ""}${s.offset}시간(${pad(want.hour)}시)에는 cron이 돌지 않아 ${pad(got.hour)}시 회차에 강제 발송`,
+      });
+    }
+  });
+  return out;
+}
+
+// 특정 시간대의 현지 시각 → UTC (DST 경계는 1회 보정으로 충분)
+function zonedTimeToUTC(y: number, mo: number, d: number, h: number, mi: number, sec: number, timeZone: string): Date {
+  const guess = Date.UTC(y, mo - 1, d, h, mi, sec);
+  const offsetAt = (t: number) => {
+    const parts = Object.fromEntries(
+      new Intl.DateTimeFormat("en-US", {
+        timeZone, year: "numeric", month: "numeric", day: "numeric",
+        hour: "numeric", minute: "numeric", second: "numeric", hourCycle: "h23",
+      }).formatToParts(new Date(t)).map(p => [p.type, p.value])
+    );
+    return Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour % 24, +parts.minute, +parts.second) - t;
+  };
+  const first = guess - offsetAt(guess);
+  return new Date(guess - offsetAt(first));
+}
+
+// ICS DTSTART 값 → UTC (…Z / TZID=… / VALUE=DATE)
+function parseIcsDate(value: string, params: Record<string, string>, defaultTz: string): Date | null {
+  const m = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!m) return null;
+  const [, y, mo, d, h = "0", mi = "0", sec = "0", z] = m;
+  if (z) return new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +sec));
+  const tz = params.TZID && isValidTimeZone(params.TZID) ? params.TZID : defaultTz;
+  return zonedTimeToUTC(+y, +mo, +d, +h, +mi, +sec, tz);
+}
+
+const unescapeIcs = (s: string) => s.replace(/\\n/gi, " ").replace(/\\([,;\\])/g, "$1").trim();
+
+// "홈 v 원정" 형식의 SUMMARY에서 상대 팀과 홈/원정 판별
+function splitMatchSummary(summary: string, teamNames: string[]): { opponent: string; venue?: "home" | "away" } {
+  const sides = summary.split(/\s+(?:vs?\.?|-|–|:)\s+/i);
+  if (sides.length !== 2) return { opponent: summary };
+  const isUs = (s: string) => teamNames.some(n => s.toLowerCase().includes(n.toLowerCase()));
+  if (isUs(sides[0]) && !isUs(sides[1])) return { opponent: sides[1].trim(), venue: "home" };
+  if (isUs(sides[1]) && !isUs(sides[0])) return { opponent: sides[0].trim(), venue: "away" };
+  return { opponent: summary };
+}
+
+function parseIcsFixtures(ics: string, md: MatchDayConfig, defaultTz: string): { fixtures: Fixture[]; issues: ConfigIssue[] } {
+  const fixtures: Fixture[] = [];
+  const issues: ConfigIssue[] = [];
+  const lines = ics.replace(/\r\n/g, "\n").replace(/\n[ \t]/g, "").split("\n"); // 줄 접기 해제
+  let ev: Record<string, { value: string; params: Record<string, string> }> | null = null;
+  let n = 0;
+
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") { ev = {}; continue; }
+    if (line === "END:VEVENT") {
+      const path = `VEVENT[${n++}]`;
+      const start = ev?.DTSTART && parseIcsDate(ev.DTSTART.value, ev.DTSTART.params, defaultTz);
+      const summary = ev?.SUMMARY ? unescapeIcs(ev.SUMMARY.value) : "";
+      if (!start) issues.push({ path, message: "DTSTART를 해석할 수 없습니다" });
+      else if (!summary) issues.push({ path, message: "SUMMARY가 없습니다" });
+      else {
+        const { opponent, venue } = splitMatchSummary(summary, md.team_names);
+        const competition = ev?.CATEGORIES ? unescapeIcs(ev.CATEGORIES.value) : undefined;
+        fixtures.push({ opponent, kickoff: start.toISOString(), venue, competition });
+      }
+      ev = null;
+      continue;
+    }
+    if (!ev) continue;
+    const m = line.match(/^([A-Z-]+)((?:;[^:]*)?):(.*)$/);
+    if (!m) continue;
+    const params: Record<string, string> = {};
+    for (const kv of m[2].split(";").filter(Boolean)) {
+      const [k, v = ""] = kv.split("=");
+      params[k.toUpperCase()] = v.replace(/^"|"$/g, "");
+    }
+    ev[m[1]] = { value: m[3], params };
+  }
+  if (!n) issues.push({ path: "", message: "VEVENT가 없습니다" });
+  return { fixtures, issues };
+}
+
+// JSON: Fixture[] 또는 { fixtures: Fixture[] } — kickoff는 오프셋 포함 ISO
+function parseJsonFixtures(input: any): { fixtures: Fixture[]; issues: ConfigIssue[] } {
+  const list = Array.isArray(input) ? input : input?.fixtures;
+  if (!Array.isArray(list)) return { fixtures: [], issues: [{ path: "", message: "배열 또는 { fixtures: [] }여야 합니다" }] };
+  const fixtures: Fixture[] = [];
+  const issues: ConfigIssue[] = [];
+  list.forEach((f: any, i: number) => {
+    const path = `fixtures[${i}]`;
+    const ko = typeof f?.kickoff === "string" && /(Z|[+-]\d{2}:?\d{2})$/.test(f.kickoff) ? Date.parse(f.kickoff) : NaN;
+    if (typeof f?.opponent !== "string" || !f.opponent.trim()) issues.push({ path: `${path}.opponent`, message: "빈 값이 아닌 문자열이어야 합니다" });
+    else if (!Number.isFinite(ko)) issues.push({ path: `${path}.kickoff`, message: "시간대 포함 ISO 시각이어야 합니다 (예: 2026-10-25T16:30:00Z)" });
+    else if (f.venue !== undefined && f.venue !== "home" && f.venue !== "away") issues.push({ path: `${path}.venue`, message: '"home" 또는 "away"여야 합니다' });
+    else if (f.keywords !== undefined && (!Array.isArray(f.keywords) || f.keywords.some((k: any) => typeof k !== "string" || !k.trim()))) {
+      issues.push({ path: `${path}.keywords`, message: "문자열 배열이어야 합니다" });
+    } else {
+      fixtures.push({
+        opponent: f.opponent.trim(),
+        kickoff: new Date(ko).toISOString(),
+        competition: typeof f.competition === "string" ? f.competition : undefined,
+        venue: f.venue,
+        keywords: f.keywords,
+      });
+    }
+  });
+  return { fixtures, issues };
+}
+
+// GET /fixtures: 저장된 일정 + 현재 매치데이 / PUT /fixtures: ICS 또는 JSON으로 전체 교체
+async function handleFixtures(req: Request, env: Env): Promise<Response> {
+  const now = new Date();
+  const { cfg } = await loadConfigChecked(env);
+  const cron = (await env.FCANEWS_KV.get(KV_LAST_CRON)) || DEFAULT_CRON;
+  const slotWarnings = (fixtures: Fixture[]) => fixtureSlotWarnings(fixtures, cfg.match_day, cron, cfg.schedule.timezone);
+
+  if (req.method === "GET") {
+    const fixtures = await loadFixtures(env);
+    return jsonResponse({
+      fixtures,
+      active: activeFixture(fixtures, now, cfg.match_day),
+      match_day: cfg.match_day,
+      warnings: slotWarnings(fixtures),
+    });
+  }
+  if (req.method !== "PUT") return jsonError(405, "method_not_allowed", "use GET or PUT");
+
+  const body = await req.text();
+  const isIcs = /text\/calendar/i.test(req.headers.get("Content-Type") ?? "") || /^\s*BEGIN:VCALENDAR/.test(body);
+  let parsed: { fixtures: Fixture[]; issues: ConfigIssue[] };
+  if (isIcs) parsed = parseIcsFixtures(body, cfg.match_day, cfg.schedule.timezone);
+  else {
+    try {
+      parsed = parseJsonFixtures(JSON.parse(body));
+    } catch {
+      return jsonError(400, "invalid_body", "body must be an ICS calendar or JSON");
+    }
+  }
+  if (parsed.issues.length) {
+    return jsonResponse({ error: "invalid_fixtures", message: `${parsed.issues.length} invalid fixture(s)`, details: parsed.issues }, 400);
+  }
+
+  const fixtures = parsed.fixtures
+    .filter(f => Date.parse(f.kickoff) > now.getTime() - FIXTURE_KEEP_MS)
+    .sort((a, b) => a.kickoff.localeCompare(b.kickoff))
+    .slice(0, FIXTURES_MAX);
+  await env.FCANEWS_KV.put(KV_FIXTURES, JSON.stringify(fixtures));
+  return jsonResponse({
+    imported: fixtures.length,
+    skipped_past: parsed.fixtures.length - fixtures.length,
+    format: isIcs ? "ics" : "json",
+    next: fixtures.find(f => Date.parse(f.kickoff) > now.getTime()) ?? null,
+    active: activeFixture(fixtures, now, cfg.match_day),
+    warnings: slotWarnings(fixtures),
+  });
+}
+
+/* ───────────────────────── priority alerts ───────────────────────── */
+// priority_keywords에 걸린 기사: 발송 조건(computeShouldSend)과 무관하게 즉시 별도 속보로 발송
+type PriorityAlert = { rule: string; cluster: ArticleCluster };
+
+// 속보 대상과 나머지(정규 다이제스트 후보) 분리. 같은 사건의 기사는 한 속보로 묶음
+function splitPriorityAlerts(collected: ArticleItem[], cfg: AppConfig): { alerts: PriorityAlert[]; rest: ArticleItem[] } {
+  const rules = compileRules(cfg.priority_keywords, "title");
+  if (!rules.length) return { alerts: [], rest: collected };
+
+  const ruleOf = new Map<string, string>(); // link → 매칭 규칙
+  const rest: ArticleItem[] = [];
+  for (const it of collected) {
+    const hit = findMatchingRule(rules, norm(it.title), norm(it.description ?? ""));
+    if (hit) ruleOf.set(it.link, hit.src);
+    else rest.push(it);
+  }
+  const hits = collected.filter(it => ruleOf.has(it.link));
+  const alerts = clusterArticles(hits, clusterOptionsFrom(cfg))
+    .sort((a, b) => b.latestPubUTC.getTime() - a.latestPubUTC.getTime())
+    .map(cluster => ({ rule: ruleOf.get(cluster.articles[0].link)!, cluster }));
+  return { alerts, rest };
+}
+
+// 기사가 많으면 다이제스트처럼 길이 상한에 맞춰 여러 메시지로 분할
+function buildAlertMessages(alert: PriorityAlert, timeZone: string): string[] {
+  const { cluster } = alert;
+  const lines = [`🚨 <b>속보</b> | ${escapeHtml(cluster.repTitle)}`, ""];
+  for (const art of cluster.articles) {
+    lines.push(`• ${escapeHtml(art.press || shortHostname(art.link) || "링크")}: <a href="${escapeHtml(art.link)}">${escapeHtml(art.title)}</a>`);
+  }
+  lines.push("", `<i>${fmtClockLabel(cluster.latestPubUTC, timeZone)} 보도</i>`);
+  return paginateBlocks([lines]);
+}
+
+// 관리자 리포트/미리보기: 발동한 속보 (results가 있으면 전달처별 성공 여부 포함)
+function buildAlertReportLines(alerts: PriorityAlert[], results?: DestinationResult[][]): string[] {
+  return alerts.map((a, i) => {
+    const status = results?.[i]?.length
+      ? ` — ${results[i].map(r => `${escapeHtml(r.name)} ${r.result.ok ? "✅" : "⚠️"}`).join(", ")}`
+      : "";
+    return `🚨 속보 [${escapeHtml(a.rule)}] ${escapeHtml(a.cluster.repTitle)} (${a.cluster.articles.length}건)${status}`;
+  });
+}
+
+/* ───────────────────────── notifiers ───────────────────────── */
+// 전달처(destinations)별 구현: 다이제스트/속보를 각 서비스 고유 형식으로 렌더링해 전송
+//   telegram = HTML 메시지 (실패 시 outbox 재전송), discord/slack = 웹훅, webhook = 구조화 JSON
+type DigestPayload = {
+  clusters: ArticleCluster[];
+  heading?: string;        // 일반 텍스트 머리말 (매치데이, 요약 제목 …)
+  opts: ClusterOptions;
+  threaded?: boolean;      // 정규 다이제스트: telegram은 이어지는 기사를 원래 메시지에 답장/수정 (요약은 false)
+};
+
+type Notifier = {
+  name: string;
+  type: DestinationConfig["type"];
+  sendDigest(p: DigestPayload, marks?: DeliveryMarks): Promise<MultiDeliveryResult>;
+  sendAlert(alert: PriorityAlert): Promise<MultiDeliveryResult>;
+};
+
+type DestinationResult = { name: string; type: DestinationConfig["type"]; result: MultiDeliveryResult; primary?: boolean };
+
+const DISCORD_MAX_EMBEDS = 10;     // 메시지당 embed 수
+const DISCORD_MAX_CHARS = 6000;    // 메시지당 embed 글자 합
+const SLACK_MAX_BLOCKS = 50;
+
+const truncate = (s: string, n: number) => (s.length > n ? s.slice(0, n - 1) + "…" : s);
+const pressLabel = (a: ArticleItem) => a.press || shortHostname(a.link) || "링크";
+
+// 웹훅 POST: 429는 Retry-After(헤더/JSON) 준수, 5xx/네트워크 오류는 지수 백오프, 그 외 4xx는 즉시 실패
+async function postWebhook(url: string, body: unknown): Promise<DeliveryResult> {
+  let last: DeliveryResult = { ok: false, attempts: 0 };
+  for (let attempt = 1; attempt <= SEND_MAX_ATTEMPTS; attempt++) {
+    let waitMs = 1000 * 2 ** (attempt - 1);
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (res.ok) return { ok: true, attempts: attempt, status: res.status };
+      const text = await res.text().catch(() => "");
+      last = { ok: false, attempts: attempt, status: res.status, error: text.slice(0, 200) || `HTTP ${res.status}` };
+      console.error("webhook send failed", shortHostname(url), res.status, last.error);
+
+      if (res.status === 429) {
+        let ra = Number(res.headers.get("Retry-After"));
+        if (!Number.isFinite(ra)) ra = Number((() => { try { return JSON.parse(text)?.retry_after; } catch { return NaN; } })());
+        if (Number.isFinite(ra)) waitMs = Math.min(ra, RETRY_AFTER_CAP_SEC) * 1000;
+      } else if (res.status < 500) {
+        return last;
+      }
+    } catch (e: any) {
+      last = { ok: false, attempts: attempt, error: String(e?.message || e) };
+      console.error("webhook send error", shortHostname(url), last.error);
+    }
+    if (attempt < SEND_MAX_ATTEMPTS) await sleep(waitMs);
+  }
+  return last;
+}
+
+// 웹훅 전달처(Discord/Slack/범용)용 보관함: telegram outbox와 같은 규칙, 전달처(url)별로 순서 유지
+const KV_HOOK_OUTBOX = "outbox:hook";
+type HookOutboxItem = { url: string; body: unknown; createdAt: string; marks?: DeliveryMarks };
+
+async function loadHookOutbox(env: Env): Promise<HookOutboxItem[]> {
+  try {
+    const raw = await env.FCANEWS_KV.get(KV_HOOK_OUTBOX);
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.error("hook outbox parse error", e);
+    return [];
+  }
+}
+
+async function saveHookOutbox(env: Env, items: HookOutboxItem[]): Promise<void> {
+  if (!items.length) await env.FCANEWS_KV.delete(KV_HOOK_OUTBOX);
+  else await env.FCANEWS_KV.put(KV_HOOK_OUTBOX, JSON.stringify(items.slice(-OUTBOX_MAX)));
+}
+
+// 여러 요청을 순서대로 전송 (첫 실패에서 중단) → MultiDeliveryResult
+//   재시도 가능한 실패면 남은 요청을 보관함으로, 워터마크는 마지막 요청에 실어 전달 확인 뒤 반영
+async function postWebhookParts(url: string, bodies: unknown[], env: Env, marks?: DeliveryMarks): Promise<MultiDeliveryResult> {
+  const out: MultiDeliveryResult = { ok: true, attempts: 0, parts: bodies.length, delivered: 0, message_ids: [] };
+  for (let i = 0; i < bodies.length; i++) {
+    const res = await postWebhook(url, bodies[i]);
+    out.attempts += res.attempts;
+    out.status = res.status;
+    if (res.ok) {
+      out.delivered++;
+      continue;
+    }
+    if (!isRetryable(res)) return { ...out, ok: false, error: res.error };
+
+    const box = await loadHookOutbox(env);
+    const createdAt = new Date().toISOString();
+    for (let j = i; j < bodies.length; j++) {
+      box.push({ url, body: bodies[j], createdAt, marks: j === bodies.length - 1 ? marks : undefined });
+    }
+    await saveHookOutbox(env, box);
+    return { ...out, ok: false, error: res.error, parked: true };
+  }
+  await applyDeliveryMarks(env, marks);
+  return out;
+}
+
+// 보관된 웹훅 요청 재전송: 재시도 가능한 실패가 난 전달처는 이번 회차에서 멈추고(순서 유지) 다른 전달처는 계속
+async function drainHookOutbox(env: Env): Promise<{ sent: number; remaining: number; dropped: string[] }> {
+  const box = await loadHookOutbox(env);
+  if (!box.length) return { sent: 0, remaining: 0, dropped: [] };
+
+  let sent = 0;
+  const dropped: string[] = [];
+  const blocked = new Set<string>();
+  const rest: HookOutboxItem[] = [];
+  for (const item of box) {
+    if (blocked.has(item.url)) {
+      rest.push(item);
+      continue;
+    }
+    const res = await postWebhook(item.url, item.body);
+    if (!res.ok && isRetryable(res)) {
+      blocked.add(item.url);
+      rest.push(item);
+      continue;
+    }
+    if (res.ok) {
+      sent++;
+      await applyDeliveryMarks(env, item.marks);
+    } else {
+      dropped.push(`${shortHostname(item.url)}: ${res.error ?? `HTTP ${res.status}`}`);
+    }
+  }
+  await saveHookOutbox(env, rest);
+  return { sent, remaining: rest.length, dropped };
+}
+
+function telegramNotifier(name: string, chatId: string, env: Env, threading: ThreadingConfig, timeZone: string): Notifier {
+  return {
+    name,
+    type: "telegram",
+    sendDigest: (p, marks) =>
+      threading.mode !== "off" && p.threaded
+        ? sendThreadedDigest(p, chatId, env, threading, marks)
+        : deliverAll(buildDigestMessages(p.clusters, p.heading ? [escapeHtml(p.heading)] : [], p.opts), chatId, env, marks),
+    sendAlert: alert => deliverAll(buildAlertMessages(alert, timeZone), chatId, env),
+  };
+}
+
+// Discord 마크다운 링크 텍스트 이스케이프
+const escapeDiscord = (s: string) => s.replace(/([\\[\]()*_~`|>])/g, "\\$1");
+// 링크 주소: 괄호/공백이 있으면 [..](..)가 중간에서 끝나므로 퍼센트 인코딩
+const discordUrl = (url: string) =>
+  url.replace(/[()\s]/g, ch => "%" + ch.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0"));
+
+function discordEmbed(c: ArticleCluster, color: number, titlePrefix = ""): any {
+  const description = c.articles.length === 1
+    ? pressLabel(c.articles[0])
+    : c.articles.map(a => `• [${escapeDiscord(pressLabel(a))}](${discordUrl(a.link)})`).join("\n");
+  return {
+    title: truncate(`${titlePrefix}${c.repTitle}${c.articles.length > 1 ? ` (${c.articles.length}건)` : ""}`, 256),
+    url: c.articles[0].link,
+    description: truncate(description, 4096),
+    timestamp: c.latestPubUTC.toISOString(),
+    color,
+  };
+}
+
+function discordNotifier(name: string, url: string, env: Env): Notifier {
+  return {
+    name,
+    type: "discord",
+    async sendDigest(p, marks) {
+      // embed 10개 / 6000자 단위로 메시지 분할, 머리말은 첫 메시지 content
+      const bodies: any[] = [];
+      let cur: any[] = [];
+      let chars = 0;
+      for (const embed of p.clusters.map(c => discordEmbed(c, 0x4b2a83))) {
+        const len = embed.title.length + embed.description.length;
+        if (cur.length && (cur.length >= DISCORD_MAX_EMBEDS || chars + len > DISCORD_MAX_CHARS)) {
+          bodies.push({ embeds: cur });
+          cur = [];
+          chars = 0;
+        }
+        cur.push(embed);
+        chars += len;
+      }
+      if (cur.length) bodies.push({ embeds: cur });
+      if (p.heading && bodies.length) bodies[0].content = truncate(p.heading, 2000);
+      return postWebhookParts(url, bodies, env, marks);
+    },
+    sendAlert: alert =>
+      postWebhookParts(url, [{ content: "🚨 **속보**", embeds: [discordEmbed(alert.cluster, 0xe02424)] }], env),
+  };
+}
+
+// Slack mrkdwn 이스케이프 (&, <, > 만)
+const escapeSlack = (s: string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+function slackSection(c: ArticleCluster): any {
+  const text = c.articles.length === 1
+    ? `*<${c.articles[0].link}|${escapeSlack(c.repTitle)}>*  _${escapeSlack(pressLabel(c.articles[0]))}_`
+    : [`*${escapeSlack(c.repTitle)}* (${c.articles.length}건)`,
+       ...c.articles.map(a => `• <${a.link}|${escapeSlack(pressLabel(a))}>`)].join("\n");
+  return { type: "section", text: { type: "mrkdwn", text: truncate(text, 3000) } };
+}
+
+function slackNotifier(name: string, url: string, env: Env): Notifier {
+  return {
+    name,
+    type: "slack",
+    async sendDigest(p, marks) {
+      const head = p.heading ? [{ type: "header", text: { type: "plain_text", text: truncate(p.heading, 150) } }] : [];
+      const blocks = [...head, ...p.clusters.map(slackSection)];
+      const bodies: any[] = [];
+      for (let i = 0; i < blocks.length; i += SLACK_MAX_BLOCKS) {
+        bodies.push({ text: p.heading ?? `${p.clusters.length}개 소식`, blocks: blocks.slice(i, i + SLACK_MAX_BLOCKS) });
+      }
+      return postWebhookParts(url, bodies, env, marks);
+    },
+    sendAlert: alert =>
+      postWebhookParts(url, [{
+        text: `🚨 속보: ${alert.cluster.repTitle}`,
+        blocks: [{ type: "header", text: { type: "plain_text", text: "🚨 속보" } }, slackSection(alert.cluster)],
+      }], env),
+  };
+}
+
+// 범용 웹훅: 렌더링 없이 구조화된 JSON
+function clusterJson(c: ArticleCluster) {
+  return {
+    title: c.repTitle,
+    score: c.score,
+    latest: c.latestPubUTC.toISOString(),
+    articles: c.articles.map(a => ({ title: a.title, link: a.link, press: a.press ?? null, published: a.pubUTC.toISOString() })),
+  };
+}
+
+function jsonWebhookNotifier(name: string, url: string, env: Env): Notifier {
+  const app = env.APP_NAME ?? "fca-news";
+  return {
+    name,
+    type: "webhook",
+    sendDigest: (p, marks) =>
+      postWebhookParts(url, [{ app, kind: "digest", sent_at: new Date().toISOString(), heading: p.heading ?? null, clusters: p.clusters.map(clusterJson) }], env, marks),
+    sendAlert: alert =>
+      postWebhookParts(url, [{ app, kind: "alert", sent_at: new Date().toISOString(), rule: alert.rule, cluster: clusterJson(alert.cluster) }], env),
+  };
+}
+
+function buildNotifiers(cfg: AppConfig, env: Env): Notifier[] {
+  return cfg.destinations.map(d => {
+    switch (d.type) {
+      case "telegram": return telegramNotifier(d.name, d.chat_id || env.TELEGRAM_CHAT_ID, env, cfg.threading, cfg.schedule.timezone);
+      case "discord": return discordNotifier(d.name, d.url, env);
+      case "slack": return slackNotifier(d.name, d.url, env);
+      case "webhook": return jsonWebhookNotifier(d.name, d.url, env);
+    }
+  });
+}
+
+// 주 전달처: 첫 번째 telegram (없으면 첫 번째 전달처). 워터마크와 seen-set sent 표시는 주 전달처 기준
+const primaryIndex = (notifiers: Notifier[]) => Math.max(0, notifiers.findIndex(n => n.type === "telegram"));
+
+// 모든 전달처에 다이제스트 전송. 워터마크(marks)는 주 전달처에만 실어 그곳 전달이 확인된 뒤에 반영
+//   (telegram은 outbox 재전송까지 deliverAll이 처리, 다른 전달처가 성공해도 워터마크는 움직이지 않음)
+async function sendDigestAll(notifiers: Notifier[], p: DigestPayload, marks?: DeliveryMarks): Promise<DestinationResult[]> {
+  const out: DestinationResult[] = [];
+  const primary = primaryIndex(notifiers);
+  for (const [i, n] of notifiers.entries()) {
+    out.push({ name: n.name, type: n.type, result: await n.sendDigest(p, i === primary ? marks : undefined), primary: i === primary });
+  }
+  return out;
+}
+
+// 주 전달처가 받았거나 outbox에 보관됐으면(버린 파트 없이) "보낸 것"으로 봄
+const primaryDelivered = (results: DestinationResult[]) =>
+  results.some(r => r.primary && (r.result.ok || (!!r.result.parked && !r.result.dropped)));
+
+async function sendAlertAll(notifiers: Notifier[], alert: PriorityAlert): Promise<DestinationResult[]> {
+  const out: DestinationResult[] = [];
+  const primary = primaryIndex(notifiers);
+  for (const [i, n] of notifiers.entries()) {
+    out.push({ name: n.name, type: n.type, result: await n.sendAlert(alert), primary: i === primary });
+  }
+  return out;
+}
+
+// 관리자 리포트: 전달처별 상태
+const buildDestinationLines = (icon: string, results: DestinationResult[]) =>
+  results.map(r => `${icon} ${escapeHtml(r.name)}: ${fmtDelivery(r.result)}`);
+
+/* ───────────────────────── story threading ───────────────────────── */
+// telegram 다이제스트로 보낸 클러스터를 message_id와 함께 기억 → 다음 회차에 같은 이야기(제목 유사도)가 오면
+// 새 다이제스트에 싣지 않고 원래 메시지에 답장(reply)하거나 원래 메시지에 덧붙여 수정(edit)
+const KV_THREADS = "threads:recent"; // ThreadStore
+const THREADS_MAX = 300;             // 보관 클러스터 상한
+
+type ThreadRecord = {
+  chat_id: string;
+  message_id: number;
+  sent_at: string;
+  titles: string[]; // 유사도 비교용 (후속 기사도 합류)
+  links: string[];
+  block: string;    // 메시지 본문 안의 이 클러스터 블록 (edit 위치 찾기)
+};
+type ThreadStore = {
+  threads: ThreadRecord[];
+  messages: Record<string, string>; // "<chat>:<message_id>" → 현재 본문 (edit 모드)
+};
+
+const threadMsgKey = (chatId: string, messageId: number) => `${chatId}:${messageId}`;
+
+async function loadThreads(env: Env): Promise<ThreadStore> {
+  try {
+    const raw = await env.FCANEWS_KV.get(KV_THREADS);
+    return raw ? JSON.parse(raw) : { threads: [], messages: {} };
+  } catch (e) {
+    console.error("threads parse error", e);
+    return { threads: [], messages: {} };
+  }
+}
+
+// 창(72시간 상한) 밖의 기록과 더 이상 참조되지 않는 본문 정리 후 저장
+async function saveThreads(env: Env, store: ThreadStore, now = Date.now()): Promise<void> {
+  const threads = store.threads
+    .filter(t => now - Date.parse(t.sent_at) < 72 * 3600000)
+    .slice(-THREADS_MAX);
+  const keep = new Set(threads.map(t => threadMsgKey(t.chat_id, t.message_id)));
+  const messages = Object.fromEntries(Object.entries(store.messages).filter(([k]) => keep.has(k)));
+  await env.FCANEWS_KV.put(KV_THREADS, JSON.stringify({ threads, messages }));
+}
+
+// 클러스터 ↔ 기존 이야기 유사도: clusterArticles와 같은 척도 (제목 bigram Jaccard의 멤버 평균)
+function threadSimilarity(c: ArticleCluster, t: ThreadRecord, opts: ClusterOptions): number {
+  const threadGrams = t.titles.map(title => titleBigrams(title, opts.stopPrefixes));
+  let total = 0;
+  for (const a of c.articles) {
+    const grams = titleBigrams(a.title, opts.stopPrefixes);
+    total += threadGrams.reduce((acc, g) => acc + jaccardSimilarity(grams, g), 0) / threadGrams.length;
+  }
+  return total / c.articles.length;
+}
+
+// 창 안의 같은 채팅 기록 중 가장 비슷한 이야기 (기준 미만이면 null)
+function findThread(c: ArticleCluster, threads: ThreadRecord[], opts: ClusterOptions): ThreadRecord | null {
+  let best: ThreadRecord | null = null;
+  let bestSim = 0;
+  for (const t of threads) {
+    const sim = threadSimilarity(c, t, opts);
+    if (sim > bestSim) {
+      bestSim = sim;
+      best = t;
+    }
+  }
+  return best && bestSim >= opts.threshold ? best : null;
+}
+
+const followupArticleLine = (a: ArticleItem) =>
+  `   ↳ 🆕 ${escapeHtml(pressLabel(a))}: <a href="${escapeHtml(a.link)}">${escapeHtml(truncate(a.title, 60))}</a>`;
+
+function buildFollowupMessage(c: ArticleCluster): string {
+  return [`🧵 <b>후속</b> ${escapeHtml(c.repTitle)}`, ...c.articles.map(followupArticleLine)].join("\n");
+}
+
+async function editTelegramMessage(chatId: string, messageId: number, text: string, env: Env): Promise<DeliveryResult> {
+  try {
+    const res = await fetch(`https://api.telegram.org/bot${env.TELEGRAM_BOT_TOKEN}/editMessageText`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ chat_id: chatId, message_id: messageId, text, parse_mode: "HTML", disable_web_page_preview: true }),
+    });
+    const data: any = await res.json().catch(() => null);
+    if (res.ok && data?.ok !== false) return { ok: true, attempts: 1, status: res.status, message_id: messageId };
+    return { ok: false, attempts: 1, status: res.status, error: data?.description ?? `HTTP ${res.status}` };
+  } catch (e: any) {
+    return { ok: false, attempts: 1, error: String(e?.message || e) };
+  }
+}
+
+// 후속 하나 전달: edit 모드면 원래 블록 아래에 덧붙여 수정, 안 되면(본문 없음/길이 초과/수정 실패) 답장
+async function sendFollowup(c: ArticleCluster, t: ThreadRecord, store: ThreadStore, mode: ThreadingConfig["mode"], env: Env) {
+  const key = threadMsgKey(t.chat_id, t.message_id);
+  const body = store.messages[key];
+  if (mode === "edit" && body?.includes(t.block)) {
+    const block = [t.block, ...c.articles.map(followupArticleLine)].join("\n");
+    const text = body.replace(t.block, () => block); // 함수로 넘겨야 기사 제목/링크의 $&, $1 …이 치환 패턴으로 해석되지 않음
+    if (text.length <= TG_MAX_CHARS) {
+      const res = await editTelegramMessage(t.chat_id, t.message_id, text, env);
+      if (res.ok) {
+        store.messages[key] = text;
+        t.block = block;
+        return res;
+      }
+      console.error("editMessageText failed, replying instead", res.status, res.error);
+    }
+  }
+  return sendTelegram(buildFollowupMessage(c), t.chat_id, env, {
+    reply_parameters: { message_id: t.message_id, allow_sending_without_reply: true },
+  });
+}
+
+// 정규 다이제스트 (threading 켜짐): 이어지는 이야기는 답장/수정, 나머지만 새 다이제스트로
+//   후속이 전달되지 못하면 새 다이제스트에 그대로 싣는다 (기사를 잃지 않도록)
+async function sendThreadedDigest(
+  p: DigestPayload,
+  chatId: string,
+  env: Env,
+  threading: ThreadingConfig,
+  marks?: DeliveryMarks
+): Promise<MultiDeliveryResult> {
+  const store = await loadThreads(env);
+  const now = Date.now();
+  const open = store.threads.filter(t => t.chat_id === chatId && now - Date.parse(t.sent_at) < threading.window_hours * 3600000);
+
+  const fresh: ArticleCluster[] = [];
+  let followups = 0;
+  let attempts = 0;
+  for (const c of p.clusters) {
+    const t = findThread(c, open, p.opts);
+    if (!t) { fresh.push(c); continue; }
+    const res = await sendFollowup(c, t, store, threading.mode, env);
+    attempts += res.attempts;
+    if (!res.ok) { fresh.push(c); continue; }
+    t.titles.push(...c.articles.map(a => a.title));
+    t.links.push(...c.articles.map(a => a.link));
+    followups++;
+  }
+
+  // 새 이야기: 메시지별로 들어간 클러스터를 알아야 message_id를 붙일 수 있음
+  const head = p.heading ? [escapeHtml(p.heading)] : [];
+  const blocks = buildClusteredArticleBlocks(fresh, p.opts);
+  const offset = head.length ? 1 : 0;
+  const parts = fresh.length ? paginateBlockParts(head.length ? [head, ...blocks] : blocks) : [];
+  const out = parts.length
+    ? await deliverAll(parts.map(part => part.text), chatId, env, marks)
+    : { ok: true, attempts: 0, parts: 0, delivered: 0, message_ids: [] as number[] };
+  if (!parts.length) await applyDeliveryMarks(env, marks);
+
+  const sentAt = new Date(now).toISOString();
+  parts.forEach((part, i) => {
+    const messageId = out.message_ids[i];
+    if (i >= out.delivered || !messageId) return; // outbox로 간 파트는 message_id가 없음
+    store.messages[threadMsgKey(chatId, messageId)] = part.text;
+    for (const b of part.blocks.filter(b => b >= offset)) {
+      const c = fresh[b - offset];
+      store.threads.push({
+        chat_id: chatId,
+        message_id: messageId,
+        sent_at: sentAt,
+        titles: c.articles.map(a => a.title),
+        links: c.articles.map(a => a.link),
+        block: blocks[b - offset].join("\n"),
+      });
+    }
+  });
+  await saveThreads(env, store, now);
+  return { ...out, attempts: out.attempts + attempts, followups };
+}
+
+// 미리보기: 주 전달처(telegram)에서 후속으로 이어 붙을 클러스터
+async function buildThreadPreviewLines(env: Env, cfg: AppConfig, clusters: ArticleCluster[], max = 5): Promise<string[]> {
+  const primary = cfg.destinations[0];
+  if (cfg.threading.mode === "off" || primary?.type !== "telegram" || !clusters.length) return [];
+  const chatId = primary.chat_id || env.TELEGRAM_CHAT_ID;
+  const now = Date.now();
+  const open = (await loadThreads(env)).threads
+    .filter(t => t.chat_id === chatId && now - Date.parse(t.sent_at) < cfg.threading.window_hours * 3600000);
+  const opts = clusterOptionsFrom(cfg);
+  const matched = clusters.filter(c => findThread(c, open, opts));
+  if (!matched.length) return [];
+  const lines = [`🧵 후속 예정 ${matched.length}건 (${cfg.threading.mode === "reply" ? "답장" : "원래 메시지 수정"})`];
+  for (const c of matched.slice(0, max)) lines.push(`• ${escapeHtml(truncate(c.repTitle, 40))}`);
+  if (matched.length > max) lines.push(`  … 외 ${matched.length - max}건`);
+  return lines;
+}
+
+/* ───────────────────────── HTTP: admin auth ───────────────────────── */
+// 관리자 라우트: Bearer 토큰 또는 서명 링크(?exp=&sig=) + IP별 분당 요청 제한
+const ADMIN_PATHS = new Set([
+  "/env", "/test", "/config", "/config/history", "/config/rollback", "/stats", "/stats.html", "/fixtures", "/replay", "/feedback",
+]);
+const ADMIN_RATE_LIMIT = 30;          // IP당 분당 요청 수
+const KV_RATE_PREFIX = "rl:";         // rl:<ip>:<분 단위 윈도우>
+const SIGNED_LINK_TTL_SEC = 3600;
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { "content-type": "application/json; charset=utf-8", ...headers },
+  });
+}
+
+// 오류 응답 형식: { error: 코드, message: 설명 }
+function jsonError(status: number, error: string, message: string, headers: Record<string, string> = {}) {
+  return jsonResponse({ error, message }, status, headers);
+}
+
+// 길이 외에는 시간 차이가 나지 않는 비교
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+async function hmacHex(secret: string, msg: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw", new TextEncoder().encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]
+  );
+  const sig = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(msg));
+  return [...new Uint8Array(sig)].map(b => b.toString(16).padStart(2, "0")).join("");
+}
+
+const linkSecret = (env: Env) => env.ADMIN_LINK_SECRET || env.ADMIN_TOKEN || "";
+
+// 서명 링크 생성: path?exp=<unix초>&sig=<hmac(path\nexp)>
+async function signAdminPath(env: Env, path: string, ttlSec = SIGNED_LINK_TTL_SEC): Promise<string> {
+  const exp = Math.floor(Date.now() / 1000) + ttlSec;
+  const sig = await hmacHex(linkSecret(env), `${path}\n${exp}`);
+  return `${path}?exp=${exp}&sig=${sig}`;
+}
+
+async function isAdminAuthorized(req: Request, url: URL, env: Env): Promise<boolean> {
+  if (!env.ADMIN_TOKEN) return false;
+
+  const auth = req.headers.get("Authorization") || "";
+  const m = auth.match(/^Bearer\s+(.+)$/i);
+  if (m) return safeEqual(m[1].trim(), env.ADMIN_TOKEN);
+
+  const exp = Number(url.searchParams.get("exp"));
+  const sig = url.searchParams.get("sig") || "";
+  if (!sig || !Number.isFinite(exp) || exp * 1000 < Date.now()) return false;
+  const expected = await hmacHex(linkSecret(env), `${url.pathname}\n${exp}`);
+  return safeEqual(sig, expected);
+}
+
+// KV 카운터 기반 고정 윈도우(1분) 제한
+// id: IP 또는 "u:<chat id>" (봇 사용자)
+async function checkRateLimit(env: Env, id: string, limit = ADMIN_RATE_LIMIT): Promise<{ ok: boolean; retryAfter: number }> {
+  const now = Date.now();
+  const window = Math.floor(now / 60000);
+  const key = `${KV_RATE_PREFIX}${id}:${window}`;
+  const count = Number(await env.FCANEWS_KV.get(key)) || 0;
+  const retryAfter = Math.ceil(((window + 1) * 60000 - now) / 1000);
+  if (count >= limit) return { ok: false, retryAfter };
+  await env.FCANEWS_KV.put(key, String(count + 1), { expirationTtl: 120 });
+  return { ok: true, retryAfter };
+}
+
+// 관리자 라우트 가드: 통과면 null, 아니면 401/429 응답
+async function guardAdmin(req: Request, url: URL, env: Env): Promise<Response | null> {
+  const ip = req.headers.get("CF-Connecting-IP") || "unknown";
+  const rl = await checkRateLimit(env, ip);
+  if (!rl.ok) {
+    return jsonError(429, "rate_limited", `too many requests, retry after ${rl.retryAfter}s`, {
+      "Retry-After": String(rl.retryAfter),
+    });
+  }
+  if (!(await isAdminAuthorized(req, url, env))) {
+    return jsonError(401, "unauthorized", env.ADMIN_TOKEN
+      ? "missing or invalid bearer token / signed link"
+      : "admin routes are disabled (ADMIN_TOKEN not configured)", {
+      "WWW-Authenticate": 'Bearer realm="fca-news"',
+    });
+  }
+  return null;
+}
+
+/* ───────────────────────── run history & stats ───────────────────────── */
+// cron 회차 기록: KST 날짜별 버킷(runs:YYYY-MM-DD)에 쌓고 TTL로 굴린다
+//   (통계/네이버 호출 수 버킷은 schedule.timezone과 무관하게 KST 고정 — 네이버 한도가 KST 자정에 초기화)
+const KV_RUNS_PREFIX = "runs:";
+const RUN_RETENTION_DAYS = 30;
+
+type RunRecord = {
+  at: string;                  // 실행 시각(UTC ISO)
+  status: "sent" | "failed" | "held" | "skipped" | "error"; // failed: 발송했지만 어느 전달처에도 도착하지 않음
+  candidates: number;          // 필터 통과 기사 수
+  digest_articles: number;     // 점수 컷 후 다이제스트 기사 수
+  clusters: number;
+  top_score: number;
+  evaluated: number;           // 필터를 거친 기사 수 (제외율 분모)
+  exclude_hits: Record<string, number>; // 제외 규칙 → 건수
+  loops: Array<Pick<LoopReport, "query" | "call_no" | "fetched" | "time_filtered" | "title_include_fail" | "title_exclude_hit">>;
+  source_errors: Array<{ source: string; status?: number; error: string; kind?: NaverErrorKind }>;
+  delivery_ok?: boolean;
+  alerts?: number;             // 즉시 속보 발송 수
+  error?: string;
+};
+
+function kstDateKey(dUTC: Date): string {
+  const k = toKST(dUTC);
+  return `${k.getUTCFullYear()}-${pad(k.getUTCMonth() + 1)}-${pad(k.getUTCDate())}`;
+}
+
+async function loadRunBucket(env: Env, dateKey: string): Promise<RunRecord[]> {
+  try {
+    const raw = await env.FCANEWS_KV.get(`${KV_RUNS_PREFIX}${dateKey}`);
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.error("run bucket parse error", dateKey, e);
+    return [];
+  }
+}
+
+async function recordRun(env: Env, rec: RunRecord): Promise<void> {
+  const key = kstDateKey(new Date(rec.at));
+  const bucket = await loadRunBucket(env, key);
+  bucket.push(rec);
+  await env.FCANEWS_KV.put(`${KV_RUNS_PREFIX}${key}`, JSON.stringify(bucket), {
+    expirationTtl: (RUN_RETENTION_DAYS + 1) * 86400,
+  });
+}
+
+// 최근 days일 기록 (오래된 날짜 → 최근 순)
+async function loadRecentRuns(env: Env, days: number, nowUTC = new Date()): Promise<Array<{ date: string; runs: RunRecord[] }>> {
+  const out: Array<{ date: string; runs: RunRecord[] }> = [];
+  for (let i = days - 1; i >= 0; i--) {
+    const date = kstDateKey(new Date(nowUTC.getTime() - i * 86400000));
+    out.push({ date, runs: await loadRunBucket(env, date) });
+  }
+  return out;
+}
+
+const avg = (xs: number[]) => (xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : 0);
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function aggregateRuns(daily: Array<{ date: string; runs: RunRecord[] }>) {
+  const all = daily.flatMap(d => d.runs);
+  const count = (runs: RunRecord[], st: RunRecord["status"]) => runs.filter(r => r.status === st).length;
+
+  const per_day = daily.map(d => ({
+    date: d.date,
+    runs: d.runs.length,
+    sends: count(d.runs, "sent"),
+    failures: count(d.runs, "failed"),
+    holds: count(d.runs, "held"),
+    errors: count(d.runs, "error"),
+    avg_candidates: round2(avg(d.runs.map(r => r.candidates))),
+  }));
+
+  // 제외 규칙별 적중률 = 적중 수 / 필터를 거친 기사 수
+  const evaluated = all.reduce((s, r) => s + r.evaluated, 0);
+  const hits: Record<string, number> = {};
+  for (const r of all) {
+    for (const [rule, n] of Object.entries(r.exclude_hits)) hits[rule] = (hits[rule] ?? 0) + n;
+  }
+  const exclude_rules = Object.entries(hits)
+    .map(([rule, n]) => ({ rule, hits: n, rate: evaluated ? round2(n / evaluated) : 0 }))
+    .sort((a, b) => b.hits - a.hits);
+
+  const errs = all.flatMap(r => r.source_errors);
+  const by_status: Record<string, number> = {};
+  for (const e of errs) {
+    const k = e.kind ?? String(e.status ?? "network");
+    by_status[k] = (by_status[k] ?? 0) + 1;
+  }
+
+  return {
+    runs: all.length,
+    totals: {
+      sends: count(all, "sent"),
+      failures: count(all, "failed"),
+      holds: count(all, "held"),
+      errors: count(all, "error"),
+      alerts: all.reduce((s, r) => s + (r.alerts ?? 0), 0),
+      avg_candidates: round2(avg(all.map(r => r.candidates))),
+      evaluated,
+      exclude_rate: evaluated ? round2(all.reduce((s, r) => s + Object.values(r.exclude_hits).reduce((a, b) => a + b, 0), 0) / evaluated) : 0,
+    },
+    per_day,
+    exclude_rules,
+    source_errors: { total: errs.length, by_status },
+  };
+}
+
+async function handleStats(url: URL, env: Env): Promise<Response> {
+  const days = parseNumber(url.searchParams.get("days") ?? 7, 7, 1, RUN_RETENTION_DAYS);
+  const stats = { days, ...aggregateRuns(await loadRecentRuns(env, days)) };
+
+  if (url.pathname.toLowerCase() !== "/stats.html") return jsonResponse(stats);
+
+  const esc = (v: unknown) => escapeHtml(String(v));
+  const table = (head: string[], rows: unknown[][]) =>
+    `<table><tr>${head.map(h => `<th>${esc(h)}</th>`).join("")}</tr>` +
+    rows.map(r => `<tr>${r.map(c => `<td>${esc(c)}</td>`).join("")}</tr>`).join("") + "</table>";
+  const t = stats.totals;
+  const html = `<!doctype html><html lang="ko"><head><meta charset="utf-8">
+<meta name="viewport" content="width=device-width,initial-scale=1"><title>fca-news stats</title>
+<style>body{font:14px system-ui,sans-serif;margin:1.5em;color:#222}table{border-collapse:collapse;margin:.5em 0 1.5em}
+th,td{border:1px solid #ccc;padding:.25em .6em;text-align:right}th{background:#f3f3f3}td:first-child{text-align:left}</style>
+</head><body>
+<h2>최근 ${days}일 (${stats.runs}회 실행)</h2>
+${table(["발송", "발송 실패", "보류", "오류", "평균 후보", "제외율"], [[t.sends, t.failures, t.holds, t.errors, t.avg_candidates, t.exclude_rate]])}
+<h3>일자별</h3>
+${table(["날짜(KST)", "실행", "발송", "발송 실패", "보류", "오류", "평균 후보"], stats.per_day.map(d => [d.date, d.runs, d.sends, d.failures, d.holds, d.errors, d.avg_candidates]))}
+<h3>제외 규칙 적중</h3>
+${table(["규칙", "건수", "비율"], stats.exclude_rules.map(r => [r.rule, r.hits, r.rate]))}
+<h3>수집 오류 ${stats.source_errors.total}건</h3>
+${table(["상태", "건수"], Object.entries(stats.source_errors.by_status))}
+</body></html>`;
+  return new Response(html, { status: 200, headers: { "content-type": "text/html; charset=utf-8" } });
+}
+
+/* ───────────────────────── recap digests ───────────────────────── */
+// 발송된 기사를 schedule.timezone 날짜별(delivered:YYYY-MM-DD)로 보관 → 일간/주간 요약에서 다시 묶는다
+const KV_DELIVERED_PREFIX = "delivered:";
+const DELIVERED_RETENTION_DAYS = 15;   // 주간 요약(지난주 월~일)을 만들 수 있을 만큼
+const KV_RECAP_LAST_DAILY = "recap:last_daily";   // 마지막 일간 요약 날짜(schedule.timezone)
+const KV_RECAP_LAST_WEEKLY = "recap:last_weekly"; // 마지막 주간 요약의 주 시작(월요일) 날짜
+
+// 요약 날짜/요일/시각은 schedule.timezone 기준. 그 시각 이후 첫 cron 회차에 발송
+//   (cron이 그 시각에 돌지 않으면 다음 날짜로 넘어간 첫 회차라도 — 마커는 전달이 확인된 뒤에만 기록)
+type RecapConfig = {
+  daily_hour: number;     // 시(schedule.timezone), -1 = 끔
+  weekly_weekday: number; // 0=일 … 6=토, -1 = 끔 (이 요일에 지난주 월~일 요약)
+  weekly_hour: number;
+  max_clusters: number;
+};
+
+const DEFAULT_RECAP: RecapConfig = { daily_hour: 22, weekly_weekday: 1, weekly_hour: 10, max_clusters: 10 };
+
+function parseRecap(raw: any): RecapConfig {
+  const d = DEFAULT_RECAP;
+  if (!raw || typeof raw !== "object") return d;
+  return {
+    daily_hour: parseNumber(raw.daily_hour, d.daily_hour, -1, 23),
+    weekly_weekday: parseNumber(raw.weekly_weekday, d.weekly_weekday, -1, 6),
+    weekly_hour: parseNumber(raw.weekly_hour, d.weekly_hour, 0, 23),
+    max_clusters: parseNumber(raw.max_clusters, d.max_clusters, 1, 50),
+  };
+}
+
+type DeliveredRecord = { title: string; link: string; pubUTC: string; kw?: number; domain?: string; press?: string };
+
+async function loadDelivered(env: Env, dateKey: string): Promise<DeliveredRecord[]> {
+  try {
+    const raw = await env.FCANEWS_KV.get(`${KV_DELIVERED_PREFIX}${dateKey}`);
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.error("delivered bucket parse error", dateKey, e);
+    return [];
+  }
+}
+
+async function recordDelivered(env: Env, articles: ArticleItem[], nowUTC: Date, timeZone: string): Promise<void> {
+  if (!articles.length) return;
+  const key = localClock(nowUTC, timeZone).date;
+  const bucket = await loadDelivered(env, key);
+  const known = new Set(bucket.map(r => r.link));
+  for (const a of articles) {
+    if (known.has(a.link)) continue;
+    bucket.push({ title: a.title, link: a.link, pubUTC: a.pubUTC.toISOString(), kw: a.kw, domain: a.domain, press: a.press });
+  }
+  await env.FCANEWS_KV.put(`${KV_DELIVERED_PREFIX}${key}`, JSON.stringify(bucket), {
+    expirationTtl: DELIVERED_RETENTION_DAYS * 86400,
+  });
+}
+
+// 기간(날짜 목록) 동안 발송된 기사 → 기사 수(보도량) 순 상위 클러스터
+async function buildRecapClusters(env: Env, cfg: AppConfig, dateKeys: string[]): Promise<ArticleCluster[]> {
+  const seenLinks = new Set<string>();
+  const items: ArticleItem[] = [];
+  for (const key of dateKeys) {
+    for (const r of await loadDelivered(env, key)) {
+      if (seenLinks.has(r.link)) continue;
+      seenLinks.add(r.link);
+      items.push({ title: r.title, link: r.link, pubUTC: new Date(r.pubUTC), kw: r.kw, domain: r.domain, press: r.press });
+    }
+  }
+  return clusterArticles(items, clusterOptionsFrom(cfg))
+    .sort((a, b) => (b.articles.length - a.articles.length) || (b.latestPubUTC.getTime() - a.latestPubUTC.getTime()))
+    .slice(0, cfg.recap.max_clusters);
+}
+
+type RecapResult = { kind: "daily" | "weekly"; label: string; clusters: number; deliveries: DestinationResult[] };
+
+// 이번 회차에 발송할 요약이 있으면 본채널로 발송
+async function runRecaps(env: Env, cfg: AppConfig, nowUTC: Date, notifiers: Notifier[]): Promise<RecapResult[]> {
+  const results: RecapResult[] = [];
+  const tz = cfg.schedule.timezone;
+  const dayClock = (offsetDays: number) => localClock(new Date(nowUTC.getTime() + offsetDays * 86400000), tz);
+  // offsetDays일 날짜의 hour시 정각이 지났는지
+  const isDue = (offsetDays: number, hour: number) => {
+    const [y, mo, d] = dayClock(offsetDays).date.split("-").map(Number);
+    return zonedTimeToUTC(y, mo, d, hour, 0, 0, tz).getTime() <= nowUTC.getTime();
+  };
+
+  const post = async (kind: RecapResult["kind"], label: string, title: string, dateKeys: string[], marker: string, markerValue: string) => {
+    const clusters = await buildRecapClusters(env, cfg, dateKeys);
+    if (!clusters.length) {
+      await env.FCANEWS_KV.put(marker, markerValue); // 발송할 게 없어도 이 기간은 처리한 것으로
+      return;
+    }
+    const total = clusters.reduce((s, c) => s + c.articles.length, 0);
+    const heading = `${title} — 주요 ${clusters.length}건 (보도 ${total}건)`;
+    const deliveries = await sendDigestAll(notifiers, { clusters, heading, opts: clusterOptionsFrom(cfg) });
+    // 전부 실패했으면 마커를 남기지 않음 → 다음 회차에 같은 기간 요약을 다시 시도
+    if (primaryDelivered(deliveries)) await env.FCANEWS_KV.put(marker, markerValue);
+    results.push({ kind, label, clusters: clusters.length, deliveries });
+  };
+
+  const r = cfg.recap;
+  if (r.daily_hour >= 0) {
+    // 가장 최근에 도래한 요약 시각의 날짜 (오늘 시각 전이면 어제)
+    const day = dayClock(isDue(0, r.daily_hour) ? 0 : -1).date;
+    if ((await env.FCANEWS_KV.get(KV_RECAP_LAST_DAILY)) !== day) {
+      await post("daily", day, `📰 오늘의 소식 (${day.slice(5)})`, [day], KV_RECAP_LAST_DAILY, day);
+    }
+  }
+
+  if (r.weekly_weekday >= 0) {
+    // 가장 최근에 도래한 주간 요약 시각 (0~7일 전) → 그 전주 월~일
+    const dueOffset = -Array.from({ length: 8 }, (_, i) => i)
+      .find(i => dayClock(-i).weekday === r.weekly_weekday && isDue(-i, r.weekly_hour))!;
+    const sinceMonday = (r.weekly_weekday + 6) % 7;
+    const keys = Array.from({ length: 7 }, (_, i) => dayClock(dueOffset - sinceMonday - 7 + i).date);
+    const weekStart = keys[0];
+    if ((await env.FCANEWS_KV.get(KV_RECAP_LAST_WEEKLY)) !== weekStart) {
+      await post("weekly", weekStart, `📅 지난주 소식 (${keys[0].slice(5)} ~ ${keys[6].slice(5)})`, keys, KV_RECAP_LAST_WEEKLY, weekStart);
+    }
+  }
+  return results;
+}
+
+/* ───────────────────────── public feeds ───────────────────────── */
+// 발송한 클러스터를 KV 스냅샷으로 보관 → /feed.xml (Atom 1.0), /feed.json (JSON Feed 1.1)
+const KV_FEED = "feed:snapshot";
+
+type FeedArticle = { title: string; link: string; press: string | null; published: string };
+type FeedEntry = FeedArticle & { id: string; sent_at: string; related: FeedArticle[] };
+type FeedSnapshot = { updated_at: string; etag: string; entries: FeedEntry[] };
+
+async function loadFeed(env: Env): Promise<FeedSnapshot | null> {
+  try {
+    const raw = await env.FCANEWS_KV.get(KV_FEED);
+    return raw ? JSON.parse(raw) : null;
+  } catch (e) {
+    console.error("feed snapshot parse error", e);
+    return null;
+  }
+}
+
+const feedArticle = (a: ArticleItem): FeedArticle =>
+  ({ title: a.title, link: a.link, press: a.press ?? (shortHostname(a.link) || null), published: a.pubUTC.toISOString() });
+
+// 발송할 때마다 스냅샷 갱신 (최신 클러스터가 앞, 같은 대표 링크는 한 번만)
+async function recordFeed(env: Env, clusters: ArticleCluster[], nowUTC: Date, size: number): Promise<void> {
+  if (!clusters.length) return;
+  const prev = (await loadFeed(env))?.entries ?? [];
+  const fresh: FeedEntry[] = clusters.map(c => {
+    const lead = c.articles.find(a => a.title === c.repTitle) ?? c.articles[0];
+    const rest = c.articles.filter(a => a !== lead);
+    return {
+      ...feedArticle(lead),
+      id: `u:${fnv1a(lead.link)}`,
+      sent_at: nowUTC.toISOString(),
+      related: rest.map(feedArticle),
+    };
+  });
+  const ids = new Set(fresh.map(e => e.id));
+  const entries = [...fresh, ...prev.filter(e => !ids.has(e.id))].slice(0, size);
+  const snapshot: FeedSnapshot = { updated_at: nowUTC.toISOString(), etag: `"${fnv1a(JSON.stringify(entries))}"`, entries };
+  await env.FCANEWS_KV.put(KV_FEED, JSON.stringify(snapshot));
+}
+
+const escapeXml = escapeHtml; // &, <, >, " — XML 본문/속성값에도 그대로 맞음
+
+function renderAtomFeed(feed: FeedSnapshot, title: string, selfUrl: string): string {
+  const entries = feed.entries.map(e => {
+    const related = e.related.map(r => `<li><a href="${escapeXml(r.link)}">${escapeXml(r.press ?? r.link)}</a></li>`).join("");
+    return [
+      "  <entry>",
+      `    <id>${escapeXml(e.link)}</id>`,
+      `    <title>${escapeXml(e.title)}</title>`,
+      `    <link rel="alternate" href="${escapeXml(e.link)}"/>`,
+      `    <author><name>${escapeXml(e.press ?? "unknown")}</name></author>`,
+      `    <published>${e.published}</published>`,
+      `    <updated>${e.sent_at}</updated>`,
+      related ? `    <content type="html">${escapeXml(`<ul>${related}</ul>`)}</content>` : "",
+      "  </entry>",
+    ].filter(Boolean).join("\n");
+  });
+  return [
+    `<?xml version="1.0" encoding="utf-8"?>`,
+    `<feed xmlns="http://www.w3.org/2005/Atom">`,
+    `  <id>${escapeXml(selfUrl)}</id>`,
+    `  <title>${escapeXml(title)}</title>`,
+    `  <link rel="self" href="${escapeXml(selfUrl)}"/>`,
+    `  <updated>${feed.updated_at}</updated>`,
+    ...entries,
+    `</feed>`,
+  ].join("\n");
+}
+
+function renderJsonFeed(feed: FeedSnapshot, title: string, selfUrl: string) {
+  return {
+    version: "https://jsonfeed.org/version/1.1",
+    title,
+    feed_url: selfUrl,
+    language: "ko",
+    items: feed.entries.map(e => ({
+      id: e.link,
+      url: e.link,
+      title: e.title,
+      date_published: e.published,
+      date_modified: e.sent_at,
+      authors: e.press ? [{ name: e.press }] : undefined,
+      _related: e.related.length ? e.related : undefined, // 같은 소식의 다른 언론사 기사
+    })),
+  };
+}
+
+// GET /feed.xml, /feed.json — 공개 라우트. ETag/Last-Modified로 조건부 요청 지원
+async function handleFeed(req: Request, url: URL, env: Env): Promise<Response> {
+  const feed = (await loadFeed(env)) ?? { updated_at: new Date(0).toISOString(), etag: `"empty"`, entries: [] };
+  const lastModified = new Date(feed.updated_at).toUTCString();
+  const cacheHeaders = { ETag: feed.etag, "Last-Modified": lastModified, "Cache-Control": "public, max-age=300" };
+
+  const inm = req.headers.get("If-None-Match");
+  const ims = req.headers.get("If-Modified-Since");
+  const notModified = inm
+    ? inm.split(",").some(t => t.trim().replace(/^W\//, "") === feed.etag)
+    : !!ims && Date.parse(ims) >= Date.parse(lastModified);
+  if (notModified) return new Response(null, { status: 304, headers: cacheHeaders });
+
+  const title = env.APP_NAME ?? "fca-news";
+  const selfUrl = `${url.origin}${url.pathname}`;
+  if (url.pathname.toLowerCase() === "/feed.json") {
+    return new Response(JSON.stringify(renderJsonFeed(feed, title, selfUrl), null, 2), {
+      headers: { "content-type": "application/feed+json; charset=utf-8", ...cacheHeaders },
+    });
+  }
+  return new Response(renderAtomFeed(feed, title, selfUrl), {
+    headers: { "content-type": "application/atom+xml; charset=utf-8", ...cacheHeaders },
+  });
+}
+
+/* ───────────────────────── HTTP: config API ───────────────────────── */
+// 바뀐 키만 { before, after }
+function diffConfig(before: AppConfig, after: AppConfig): Record<string, { before: unknown; after: unknown }> {
+  const out: Record<string, { before: unknown; after: unknown }> = {};
+  for (const key of Object.keys(after) as Array<keyof AppConfig>) {
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      out[key] = { before: before[key], after: after[key] };
+    }
+  }
+  return out;
+}
+
+// 검증을 통과한 부분 설정을 병합 (중첩 객체는 필드 단위로 덮어씀)
+export function mergeConfigPatch(before: AppConfig, patch: any): AppConfig {
+  const merged: AppConfig = { ...before, ...patch };
+  merged.sources = parseSources(merged.sources);
+  merged.scoring = parseScoring({ ...before.scoring, ...(patch.scoring ?? {}) });
+  merged.recap = parseRecap({ ...before.recap, ...(patch.recap ?? {}) });
+  merged.schedule = parseSchedule({ ...before.schedule, ...(patch.schedule ?? {}) });
+  merged.match_day = parseMatchDay({ ...before.match_day, ...(patch.match_day ?? {}) });
+  merged.links = parseLinks({ ...before.links, ...(patch.links ?? {}) });
+  merged.threading = parseThreading({ ...before.threading, ...(patch.threading ?? {}) });
+  merged.destinations = parseDestinations(merged.destinations);
+  return merged;
+}
+
+// 수집 결과 요약 (dry-run 비교용)
+async function summarizeRun(env: Env, cfg?: AppConfig) {
+  const run = await searchRecentNews(env, cfg);
+  const digest = selectDigestClusters(run.collected, run.cfg, new Date());
+  return {
+    count: run.collected.length,
+    items: run.collected.map(it => ({ title: it.title, link: it.link })),
+    clusters: digest.clusters.map(c => ({ title: c.repTitle, size: c.articles.length, score: c.score })),
+  };
+}
+
+async function handleConfigGet(env: Env): Promise<Response> {
+  const [{ cfg, warnings }, meta] = await Promise.all([loadConfigChecked(env), loadConfigMeta(env)]);
+  return jsonResponse({ ...meta, config: cfg, warnings });
+}
+
+// PUT /config: 부분 설정(JSON) 검증 → 병합 → 저장 (?dry_run=1 이면 저장 없이 전/후 후보 비교)
+async function handleConfigPut(req: Request, url: URL, env: Env): Promise<Response> {
+  let patch: any;
+  try {
+    patch = await req.json();
+  } catch {
+    return jsonError(400, "invalid_json", "request body must be JSON");
+  }
+  const issues = validateConfigPatch(patch);
+  if (issues.length) {
+    return jsonResponse({ error: "invalid_config", message: `${issues.length} invalid field(s)`, details: issues }, 400);
+  }
+
+  const before = await loadConfig(env);
+  const merged = mergeConfigPatch(before, patch);
+  const changes = diffConfig(before, merged);
+
+  if (url.searchParams.get("dry_run") === "1") {
+    // 차례로 실행: 각 검색의 키 풀이 naver:usage를 읽고-고쳐-쓰므로 동시에 돌면 한쪽 호출 수가 덮여 사라짐
+    const cur = await summarizeRun(env);
+    const next = await summarizeRun(env, merged);
+    const curLinks = new Set(cur.items.map(i => i.link));
+    const nextLinks = new Set(next.items.map(i => i.link));
+    return jsonResponse({
+      dry_run: true,
+      changes,
+      before: cur,
+      after: next,
+      added: next.items.filter(i => !curLinks.has(i.link)),
+      removed: cur.items.filter(i => !nextLinks.has(i.link)),
+    });
+  }
+
+  if (!Object.keys(changes).length) {
+    return jsonResponse({ ...(await loadConfigMeta(env)), changes, config: before });
+  }
+  const meta = await saveConfig(env, merged, url.searchParams.get("note") || "PUT /config");
+  return jsonResponse({ ...meta, changes, config: merged });
+}
+
+// 녹화본을 설정 하나로 재실행 → 후보/클러스터/발송 판단 (발송·저장 없음)
+export async function replayRun(env: Env, bundle: ReplayBundle, cfg: AppConfig) {
+  const nowUTC = new Date(bundle.recorded_at);
+  const run = await searchRecentNews(env, cfg, bundle);
+  const priority = splitPriorityAlerts(run.collected, cfg);
+  const digest = selectDigestClusters(priority.rest, cfg, nowUTC);
+  return {
+    run,
+    alerts: priority.alerts,
+    digest,
+    decision: evaluateSchedule(nowUTC, cfg, digest.articles.length, digest.topScore),
+  };
+}
+
+type ReplayResult = Awaited<ReturnType<typeof replayRun>>;
+
+// 기준/후보 재실행 결과 비교: 기사는 링크, 클러스터는 소속 링크 묶음으로 식별
+export function diffReplay(base: ReplayResult, next: ReplayResult) {
+  const reasonOf = (r: ReplayResult, link: string) => {
+    const rej = r.run.rejections.find(x => x.link === link);
+    return rej ? `${rej.stage}${rej.rule ? `: ${rej.rule}` : ""}` : r.run.collected.some(a => a.link === link) ? "collected" : "not_seen";
+  };
+  const baseLinks = new Set(base.run.collected.map(a => a.link));
+  const nextLinks = new Set(next.run.collected.map(a => a.link));
+  const clusterKey = (c: ArticleCluster) => c.articles.map(a => a.link).sort().join("\n");
+  const clusterView = (c: ArticleCluster) => ({ title: c.repTitle, size: c.articles.length, score: round2(c.score ?? 0) });
+  const baseClusters = new Map(base.digest.clusters.map(c => [clusterKey(c), c]));
+  const nextClusters = new Map(next.digest.clusters.map(c => [clusterKey(c), c]));
+
+  return {
+    articles: {
+      added: next.run.collected.filter(a => !baseLinks.has(a.link))
+        .map(a => ({ title: a.title, link: a.link, was: reasonOf(base, a.link) })),
+      removed: base.run.collected.filter(a => !nextLinks.has(a.link))
+        .map(a => ({ title: a.title, link: a.link, now: reasonOf(next, a.link) })),
+    },
+    clusters: {
+      added: [...nextClusters].filter(([k]) => !baseClusters.has(k)).map(([, c]) => clusterView(c)),
+      removed: [...baseClusters].filter(([k]) => !nextClusters.has(k)).map(([, c]) => clusterView(c)),
+      unchanged: [...nextClusters.keys()].filter(k => baseClusters.has(k)).length,
+    },
+    alerts: {
+      before: base.alerts.map(a => ({ rule: a.rule, title: a.cluster.repTitle })),
+      after: next.alerts.map(a => ({ rule: a.rule, title: a.cluster.repTitle })),
+    },
+    decision: { before: base.decision, after: next.decision },
+  };
+}
+
+const replaySummary = (r: ReplayResult) => ({
+  candidates: r.run.collected.length,
+  digest_articles: r.digest.articles.length,
+  clusters: r.digest.clusters.length,
+  top_score: round2(r.digest.topScore),
+  alerts: r.alerts.length,
+  decision: r.decision,
+  source_errors: r.run.sourceErrors,
+});
+
+// GET  /replay            → 보관 중인 녹화 목록
+// GET  /replay?id=<회차>   → 녹화 묶음 JSON (내려받아 POST bundle로 다시 쓸 수 있음)
+// POST /replay            → { id | bundle, config?: 부분 설정 } 녹화 당시 설정 대비 후보 설정의 차이
+async function handleReplay(req: Request, url: URL, env: Env): Promise<Response> {
+  if (req.method === "GET") {
+    const id = url.searchParams.get("id");
+    if (!id) return jsonResponse({ recordings: await loadReplayIndex(env) });
+    const bundle = await loadReplayBundle(env, id);
+    if (!bundle) return jsonError(404, "recording_not_found", `no recording for ${id}`);
+    return jsonResponse(bundle, 200, { "content-disposition": `attachment; filename="replay-${id.replace(/[^0-9A-Za-z]/g, "")}.json"` });
+  }
+  if (req.method !== "POST") return jsonError(405, "method_not_allowed", "use GET or POST");
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return jsonError(400, "invalid_json", "request body must be JSON");
+  }
+  let bundle: ReplayBundle | null = null;
+  if (body?.bundle) {
+    const b = body.bundle;
+    if (b?.version !== 1 || !Array.isArray(b.feeds) || !b.cfg || !b.state) {
+      return jsonError(400, "invalid_bundle", "bundle must be a version 1 recording from GET /replay?id=");
+    }
+    bundle = b;
+  } else if (typeof body?.id === "string") {
+    bundle = await loadReplayBundle(env, body.id);
+    if (!bundle) return jsonError(404, "recording_not_found", `no recording for ${body.id}`);
+  } else {
+    return jsonError(400, "missing_recording", "provide id or bundle");
+  }
+
+  const patch = body.config ?? {};
+  const issues = validateConfigPatch(patch);
+  if (issues.length) {
+    return jsonResponse({ error: "invalid_config", message: `${issues.length} invalid field(s)`, details: issues }, 400);
+  }
+  const baseCfg = bundle!.cfg;
+  const nextCfg = mergeConfigPatch(baseCfg, patch);
+
+  const base = await replayRun(env, bundle!, baseCfg);
+  const next = await replayRun(env, bundle!, nextCfg);
+  return jsonResponse({
+    recorded_at: bundle!.recorded_at,
+    changes: diffConfig(baseCfg, nextCfg),
+    before: replaySummary(base),
+    after: replaySummary(next),
+    diff: diffReplay(base, next),
+  });
+}
+
+async function handleConfigHistory(env: Env): Promise<Response> {
+  const meta = await loadConfigMeta(env);
+  const versions: ConfigMeta[] = [];
+  for (let v = meta.version; v > Math.max(0, meta.version - CFG_HISTORY_MAX); v--) {
+    const entry = await loadConfigHistory(env, v);
+    if (entry) versions.push({ version: entry.version, updated_at: entry.updated_at, note: entry.note });
+  }
+  return jsonResponse({ current: meta.version, versions });
+}
+
+// POST /config/rollback?version=N — 과거 버전을 새 버전으로 다시 저장
+async function handleConfigRollback(url: URL, env: Env): Promise<Response> {
+  const version = Number(url.searchParams.get("version"));
+  if (!Number.isInteger(version) || version < 1) {
+    return jsonError(400, "invalid_version", "version query parameter must be a positive integer");
+  }
+  const entry = await loadConfigHistory(env, version);
+  if (!entry) return jsonError(404, "version_not_found", `config version ${version} is not in history`);
+
+  const before = await loadConfig(env);
+  const meta = await saveConfig(env, entry.cfg, `rollback to v${version}`);
+  return jsonResponse({ ...meta, changes: diffConfig(before, entry.cfg), config: entry.cfg });
+}
+
+/* ───────────────────────── HTTP: test/preview & env ───────────────────────── */
+// 디버그용 마스킹
+const mask = (s?: string) => (s ? s.slice(0, 4) + "***" + s.slice(-4) : "");
+
+// /env 스냅샷
+function buildEnvSnapshot(env: Env) {
+  return {
+    app: {
+      APP_NAME: env.APP_NAME ?? null,
+    },
+    raw_vars: {
+      SEARCH_KEYWORDS: env.SEARCH_KEYWORDS ?? null,
+      INCLUDE_KEYWORDS: env.INCLUDE_KEYWORDS ?? null,
+      EXCLUDE_KEYWORDS: env.EXCLUDE_KEYWORDS ?? null,
+      DISPLAY_PER_CALL: env.DISPLAY_PER_CALL ?? null,
+      MAX_LOOPS: env.MAX_LOOPS ?? null,
+      MIN_SEND_THRESHOLD: env.MIN_SEND_THRESHOLD ?? null,
+      FORCE_HOURS: env.FORCE_HOURS ?? null,
+      SEEN_TTL_HOURS: env.SEEN_TTL_HOURS ?? null,
+      LATE_GRACE_HOURS: env.LATE_GRACE_HOURS ?? null,
+      CLUSTER_THRESHOLD: env.CLUSTER_THRESHOLD ?? null,
+      CLUSTER_STOP_PREFIXES: env.CLUSTER_STOP_PREFIXES ?? null,
+      PRIORITY_KEYWORDS: env.PRIORITY_KEYWORDS ?? null,
+    },
+    secrets_masked: {
+      NAVER_CLIENT_ID: mask(env.NAVER_CLIENT_ID),
+      NAVER_CLIENT_SECRET: mask(env.NAVER_CLIENT_SECRET),
+      NAVER_KEYS: naverCredentials(env).slice(1).map(c => c.label),
+      TELEGRAM_BOT_TOKEN: mask(env.TELEGRAM_BOT_TOKEN),
+      TELEGRAM_CHAT_ID: mask(env.TELEGRAM_CHAT_ID),
+      ADMIN_CHAT_ID: mask(env.ADMIN_CHAT_ID),
+      ADMIN_TOKEN: mask(env.ADMIN_TOKEN),
+    },
+  };
+}
+
+async function handleTestPreview(env: Env) {
+  const nowUTC = new Date();
+  const run = await loadRunConfig(env, nowUTC);
+  const {
+    cfg, collected, loopReports, rejections, sourceErrors, latestStr, earliestStr, gaps, naverPool,
+  } = await searchRecentNews(env, run.cfg);
+  const cfgWarnings = run.warnings;
+  const priority = splitPriorityAlerts(collected, cfg);
+  const hold = await applyAutoHold(env, cfg, priority.rest);
+  const digest = selectDigestClusters(hold.kept, cfg, nowUTC);
+  const decision = evaluateSchedule(nowUTC, cfg, digest.articles.length, digest.topScore);
+  const shouldSend = decision.send;
+
+  const totalLatest = loopReports.reduce((s, r) => s + (r.time_filtered || 0), 0);
+  const totalExcl = loopReports.reduce((s, r) => s + (r.title_exclude_hit || 0), 0);
+  const totalPass = loopReports.reduce((s, r) => s + (r.title_include_pass || 0), 0);
+
+  const timeLabel = fmtClockLabel(nowUTC, cfg.schedule.timezone);
+
+  // 라인 단위로 조립해서 불필요한 공백 제거
+  const lines: string[] = [];
+
+  // 헤더 2줄
+  lines.push(`🧪 TEST PREVIEW [${collected.length}건] (${timeLabel} 기준)`);
+  lines.push(`• ${shouldSend ? "보낼 예정(조건 충족)" : "보류 예정(조건 미충족)"} — ${escapeHtml(decision.reason)}`);
+  if (run.fixture) lines.push(escapeHtml(fmtFixtureLabel(run.fixture, cfg.schedule.timezone)));
+  lines.push(...buildAlertReportLines(priority.alerts));
+
+  // 집계/루프 포맷: (-제외) 제목통과 ← 최신 | (제외)제목통과/최신, (n차) 최신 ← 호출 | 최신/호출
+  const exclLabel = totalExcl > 0 ? `(-${totalExcl})` : `(0)`;
+  lines.push(`${exclLabel} ${totalPass} ← ${totalLatest} | (제외)제목통과/최신`);
+
+  lines.push(...buildLoopReportLines(loopReports));
+  lines.push(...buildGapLines(gaps, cfg.schedule.timezone));
+
+  lines.push(`(최신) ${latestStr} ~ ${earliestStr}`);
+  const naverUsage = await naverPool.snapshot();
+  if (Object.keys(naverUsage).length) lines.push(fmtNaverUsage(naverUsage, naverPool.creds));
+  lines.push(fmtScoreSummary(digest));
+  lines.push(...buildRejectionLines(rejections));
+  lines.push(...buildAutoHoldLines(hold.held));
+  lines.push(...await buildThreadPreviewLines(env, cfg, digest.clusters));
+  lines.push(...buildConfigWarningLines(cfgWarnings));
+
+  // 기사 목록 (제목 유사도로 클러스터링 + 점수 순) — 길면 여러 메시지로 분할, 클러스터별 관련/무관 버튼
+  await sendFeedbackPreview(env, digest.clusters, lines, clusterOptionsFrom(cfg, true));
+
+  return jsonResponse({
+    shouldSend,
+    decision,
+    fixture: run.fixture,
+    alerts: priority.alerts.map(a => ({ rule: a.rule, title: a.cluster.repTitle, size: a.cluster.articles.length })),
+    minSend: cfg.min_send_threshold,
+    count: collected.length,
+    items: collected.map(it => ({ title: it.title, link: it.link })),
+    clusters: digest.clusters.map(c => ({ title: c.repTitle, size: c.articles.length, score: c.score })),
+    dropped: digest.dropped.map(c => ({ title: c.repTitle, size: c.articles.length, score: c.score })),
+    held: hold.held.map(({ item, p }) => ({ title: item.title, link: item.link, p: round2(p) })),
+    loopReports,
+    gaps,
+    rejections,
+    sourceErrors,
+    naverUsage,
+    latestStr,
+    earliestStr,
+    cfg,
+    cfgWarnings,
+  });
+}
+
+
+/* ───────────────────────── player subscriptions ───────────────────────── */
+// 개인 DM 구독: /follow 선수 → 회차마다 그 선수가 나온 클러스터만 개인 메시지로
+const KV_SUBS_PREFIX = "subs:";        // subs:<chat id> → [정규화된 이름, …] (사용자별 키: 동시 /follow가 서로 덮어쓰지 않게)
+const KV_SUBS_LEGACY = "subs:players"; // 이전 형식 { chat id: [이름 …] } — 목록 조회 때 사용자별 키로 옮김
+const KV_FOLLOW_OFFSET = "follow:offset"; // 회차별 DM 상한을 넘을 때 다음 회차 시작 위치
+const KV_FOLLOW_PENDING_PREFIX = "follow:pending:"; // follow:pending:<chat id> → 아직 못 보낸 클러스터 (상한/일시 오류)
+const FOLLOW_PENDING_MAX = 30;                      // 사용자당 보관 클러스터 수 (넘으면 오래된 것부터 버림)
+const FOLLOW_PENDING_TTL_SEC = 2 * 86400;
+const FOLLOW_MAX = 10;            // 사용자당 팔로우 수
+const USER_RATE_LIMIT = 10;       // 사용자당 분당 명령 수
+const FOLLOW_DM_MAX_USERS = 40;   // 회차당 DM 받는 사용자 수 (subrequest 한도 여유)
+
+const USER_HELP = [
+  "<b>선수 팔로우</b>",
+  "/follow 이름[,이름…] — 선수 소식을 개인 메시지로 받기",
+  "/unfollow 이름[,이름…] — 팔로우 해제 (/unfollow all: 전체)",
+  "/mylist — 내 팔로우 목록",
+].join("\n");
+
+async function loadSubscription(env: Env, chatId: string): Promise<string[]> {
+  try {
+    const raw = await env.FCANEWS_KV.get(`${KV_SUBS_PREFIX}${chatId}`);
+    if (raw) return JSON.parse(raw);
+    const legacy = await env.FCANEWS_KV.get(KV_SUBS_LEGACY); // 아직 옮기기 전이면 이전 형식에서
+    return (legacy && JSON.parse(legacy)[chatId]) || [];
+  } catch (e) {
+    console.error("subscription parse error", chatId, e);
+    return [];
+  }
+}
+
+async function saveSubscription(env: Env, chatId: string, keys: string[]): Promise<void> {
+  if (keys.length) await env.FCANEWS_KV.put(`${KV_SUBS_PREFIX}${chatId}`, JSON.stringify(keys));
+  else await env.FCANEWS_KV.delete(`${KV_SUBS_PREFIX}${chatId}`);
+}
+
+// 구독자 chat id 목록 (KV list, 정렬됨). 이전 단일 키가 남아 있으면 사용자별 키로 옮김
+async function listSubscribers(env: Env): Promise<string[]> {
+  const ids: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await env.FCANEWS_KV.list({ prefix: KV_SUBS_PREFIX, cursor });
+    for (const k of page.keys) {
+      if (k.name === KV_SUBS_LEGACY) continue;
+      ids.push(k.name.slice(KV_SUBS_PREFIX.length));
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  const legacy = await env.FCANEWS_KV.get(KV_SUBS_LEGACY);
+  if (legacy) {
+    try {
+      for (const [chatId, keys] of Object.entries(JSON.parse(legacy) as Record<string, string[]>)) {
+        if (ids.includes(chatId)) continue;
+        await saveSubscription(env, chatId, keys);
+        ids.push(chatId);
+      }
+      await env.FCANEWS_KV.delete(KV_SUBS_LEGACY);
+    } catch (e) {
+      console.error("legacy subscriptions migration failed", e);
+    }
+  }
+  return ids.sort();
+}
+
+// 팔로우 가능한 이름 = include 목록 중 단일 단어/구절 규칙 (정규화 값 → 규칙)
+function followableNames(cfg: AppConfig): Map<string, KeywordRule> {
+  const out = new Map<string, KeywordRule>();
+  for (const rule of compileRules(cfg.include_keywords, "title")) {
+    if (rule.node.t === "text") out.set(rule.node.value, rule);
+  }
+  return out;
+}
+
+const displayName = (rule: KeywordRule) => rule.src.replace(/^=/, "").replace(/^"|"$/g, "");
+
+// 개인 채팅의 팔로우 명령 처리 — 처리했으면 true
+async function handleUserCommand(text: string, chatId: string, env: Env): Promise<boolean> {
+  const m = text.trim().match(/^\/(\w+)(?:@\w+)?\s*([\s\S]*)$/);
+  const cmd = m?.[1].toLowerCase();
+  if (!m || !cmd || !["start", "follow", "unfollow", "mylist"].includes(cmd)) return false;
+  const reply = async (msg: string) => { await sendTelegram(msg, chatId, env); };
+
+  const rl = await checkRateLimit(env, `u:${chatId}`, USER_RATE_LIMIT);
+  if (!rl.ok) {
+    await reply(`요청이 너무 많습니다. ${rl.retryAfter}초 뒤에 다시 시도해 주세요.`);
+    return true;
+  }
+
+  const cfg = await loadConfig(env);
+  const names = followableNames(cfg);
+  const mine = await loadSubscription(env, chatId);
+  const label = (key: string) => escapeHtml(names.has(key) ? displayName(names.get(key)!) : `${key} (목록에서 빠짐)`);
+  const args = parseListText(m[2]).map(norm);
+
+  switch (cmd) {
+    case "start":
+      await reply(USER_HELP);
+      return true;
+    case "mylist":
+      await reply(mine.length ? `⭐ 팔로우 (${mine.length}/${FOLLOW_MAX}): ${mine.map(label).join(", ")}` : `팔로우한 선수가 없습니다.\n\n${USER_HELP}`);
+      return true;
+    case "follow": {
+      if (!args.length) {
+        await reply(`사용법: /follow 이름\n가능한 이름: ${escapeHtml([...names.values()].map(displayName).join(", "))}`);
+        return true;
+      }
+      const unknown = args.filter(a => !names.has(a.replace(/^=/, "")));
+      const next = [...new Set([...mine, ...args.map(a => a.replace(/^=/, "")).filter(a => names.has(a))])];
+      if (next.length > FOLLOW_MAX) {
+        await reply(`팔로우는 최대 ${FOLLOW_MAX}명까지 가능합니다.`);
+        return true;
+      }
+      await saveSubscription(env, chatId, next);
+      const lines = [`⭐ 팔로우 (${next.length}/${FOLLOW_MAX}): ${next.map(label).join(", ") || "없음"}`];
+      if (unknown.length) lines.push(`⚠️ 목록에 없는 이름: ${escapeHtml(unknown.join(", "))}`);
+      await reply(lines.join("\n"));
+      return true;
+    }
+    case "unfollow": {
+      const drop = new Set(args.map(a => a.replace(/^=/, "")));
+      const next = args.includes("all") ? [] : mine.filter(k => !drop.has(k));
+      await saveSubscription(env, chatId, next);
+      await reply(next.length ? `⭐ 팔로우 (${next.length}/${FOLLOW_MAX}): ${next.map(label).join(", ")}` : "팔로우를 모두 해제했습니다.");
+      return true;
+    }
+  }
+  return false;
+}
+
+// 보관용 직렬화 (Date → ISO)
+type PendingFollowCluster = { repTitle: string; latest: string; articles: Array<{ title: string; link: string; pub: string; press?: string }> };
+
+async function loadPendingFollow(env: Env, chatId: string): Promise<ArticleCluster[]> {
+  try {
+    const raw = await env.FCANEWS_KV.get(`${KV_FOLLOW_PENDING_PREFIX}${chatId}`);
+    const list: PendingFollowCluster[] = raw ? JSON.parse(raw) : [];
+    return list.map(p => ({
+      repTitle: p.repTitle,
+      latestPubUTC: new Date(p.latest),
+      joinSim: {},
+      articles: p.articles.map(a => ({ title: a.title, link: a.link, pubUTC: new Date(a.pub), press: a.press })),
+    }));
+  } catch (e) {
+    console.error("follow pending parse error", chatId, e);
+    return [];
+  }
+}
+
+// 보관 → 상한을 넘어 버린 클러스터 수
+async function savePendingFollow(env: Env, chatId: string, clusters: ArticleCluster[]): Promise<number> {
+  const kept = clusters.slice(-FOLLOW_PENDING_MAX);
+  const list: PendingFollowCluster[] = kept.map(c => ({
+    repTitle: c.repTitle,
+    latest: c.latestPubUTC.toISOString(),
+    articles: c.articles.map(a => ({ title: a.title, link: a.link, pub: a.pubUTC.toISOString(), press: a.press })),
+  }));
+  await env.FCANEWS_KV.put(`${KV_FOLLOW_PENDING_PREFIX}${chatId}`, JSON.stringify(list), { expirationTtl: FOLLOW_PENDING_TTL_SEC });
+  return clusters.length - kept.length;
+}
+
+async function listPendingFollowChats(env: Env): Promise<Set<string>> {
+  const ids = new Set<string>();
+  let cursor: string | undefined;
+  do {
+    const page = await env.FCANEWS_KV.list({ prefix: KV_FOLLOW_PENDING_PREFIX, cursor });
+    for (const k of page.keys) ids.add(k.name.slice(KV_FOLLOW_PENDING_PREFIX.length));
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return ids;
+}
+
+// 이번 회차에 발송된 클러스터 중 구독 선수가 나온 것만 개인 메시지로
+//   회차당 FOLLOW_DM_MAX_USERS명까지 — 넘은 사용자(deferred)와 일시 오류 사용자는 클러스터를 보관했다가
+//   다음 회차에 새 소식과 함께 보냄. 다음 회차는 이어지는 구독자부터
+async function sendFollowDigests(
+  env: Env,
+  cfg: AppConfig,
+  clusters: ArticleCluster[]
+): Promise<{ users: number; failed: number; removed: number; deferred: number; dropped: number }> {
+  const out = { users: 0, failed: 0, removed: 0, deferred: 0, dropped: 0 };
+  const pendingChats = await listPendingFollowChats(env);
+  if (!clusters.length && !pendingChats.size) return out;
+  const names = followableNames(cfg);
+  const subscribers = await listSubscribers(env);
+  const offset = (Number(await env.FCANEWS_KV.get(KV_FOLLOW_OFFSET)) || 0) % Math.max(1, subscribers.length);
+  const ordered = [...subscribers.slice(offset), ...subscribers.slice(0, offset)];
+  let nextOffset: number | null = null;
+
+  for (const [i, chatId] of ordered.entries()) {
+    const keys = await loadSubscription(env, chatId);
+    const rules = keys.map(k => names.get(k)).filter((r): r is KeywordRule => !!r);
+    const fresh = clusters.filter(c =>
+      c.articles.some(a => rules.some(r => matchRule(r, norm(a.title), norm(a.description ?? ""))))
+    );
+    const pending = pendingChats.has(chatId) ? await loadPendingFollow(env, chatId) : [];
+    const pendingLinks = new Set(pending.map(c => c.articles[0].link));
+    const matched = [...pending, ...fresh.filter(c => !pendingLinks.has(c.articles[0].link))];
+    if (!matched.length) continue;
+    if (out.users + out.failed >= FOLLOW_DM_MAX_USERS) {
+      nextOffset ??= (offset + i) % subscribers.length;
+      out.deferred++;
+      out.dropped += await savePendingFollow(env, chatId, matched);
+      continue;
+    }
+
+    // 개인 메시지는 outbox에 넣지 않음 (차단한 사용자 하나가 재전송 대기열을 막지 않도록)
+    const head = [`⭐ 팔로우 소식 — ${escapeHtml(rules.map(displayName).join(", "))}`];
+    let res: DeliveryResult = { ok: true, attempts: 0 };
+    for (const text of buildDigestMessages(matched, head, clusterOptionsFrom(cfg))) {
+      res = await sendTelegram(text, chatId, env);
+      if (!res.ok) break;
+    }
+    if (res.ok) {
+      out.users++;
+      if (pending.length) await env.FCANEWS_KV.delete(`${KV_FOLLOW_PENDING_PREFIX}${chatId}`);
+      continue;
+    }
+    out.failed++;
+    // 봇 차단/대화 삭제(403)면 구독 정리, 다시 보내면 될 오류면 다음 회차로 보관
+    if (res.status === 403) {
+      await saveSubscription(env, chatId, []);
+      await env.FCANEWS_KV.delete(`${KV_FOLLOW_PENDING_PREFIX}${chatId}`);
+      out.removed++;
+    } else if (isRetryable(res)) {
+      out.dropped += await savePendingFollow(env, chatId, matched);
+    } else {
+      out.dropped += matched.length;
+      if (pending.length) await env.FCANEWS_KV.delete(`${KV_FOLLOW_PENDING_PREFIX}${chatId}`);
+    }
+  }
+  if (nextOffset !== null) await env.FCANEWS_KV.put(KV_FOLLOW_OFFSET, String(nextOffset));
+  return out;
+}
+
+/* ───────────────────────── feedback classifier ───────────────────────── */
+// 관리자 미리보기의 "관련/무관" 버튼 → 라벨 예시 보관 → 제목 토큰 나이브 베이즈로
+// 제외 규칙 후보 제안(근거 건수 포함) + (선택) 관련 확률이 낮은 기사 자동 보류
+const KV_FEEDBACK_PENDING = "fb:pending"; // { id: FeedbackItem } 미리보기에 버튼을 붙인 클러스터
+const KV_FEEDBACK_LABELS = "fb:labels";   // { id: FeedbackEntry }
+const FEEDBACK_PENDING_MAX = 300;
+const FEEDBACK_MAX = 1000;                // 라벨 보관 상한 (오래된 것부터 버림)
+const FEEDBACK_MIN_PER_CLASS = 5;         // 관련/무관 각각 이만큼 모여야 분류기 사용
+const SUGGEST_MIN_EVIDENCE = 2;           // 제외 후보: 무관 라벨 최소 건수
+const SUGGEST_MIN_PRECISION = 0.9;        // 제외 후보: 무관 / (무관 + 관련)
+const TG_CALLBACK_DATA_MAX = 64;          // callback_data 바이트 상한
+
+type FeedbackLabel = "relevant" | "irrelevant";
+type FeedbackItem = { titles: string[]; links: string[]; at: string };
+type FeedbackEntry = FeedbackItem & { label: FeedbackLabel };
+type FeedbackModel = { docs: Record<FeedbackLabel, number>; tokens: Record<string, Record<FeedbackLabel, number>> };
+type ExcludeSuggestion = { term: string; irrelevant: number; relevant: number };
+
+const feedbackId = (c: ArticleCluster) => fnv1a(c.articles.map(a => a.link).sort().join("\n"));
+
+// 예시 하나의 특징: 클러스터 제목들의 토큰 집합 (한 글자 토큰 제외)
+const feedbackTokens = (titles: string[]) =>
+  [...new Set(titles.flatMap(tokenizeTitleForCluster))].filter(t => t.length >= 2);
+
+async function loadFeedbackMap<T>(env: Env, key: string): Promise<Record<string, T>> {
+  try {
+    return JSON.parse((await env.FCANEWS_KV.get(key)) ?? "{}");
+  } catch (e) {
+    console.error("feedback parse error", key, e);
+    return {};
+  }
+}
+
+// 오래된 것부터 잘라 저장
+async function saveFeedbackMap<T extends { at: string }>(env: Env, key: string, map: Record<string, T>, max: number) {
+  const entries = Object.entries(map).sort((a, b) => (a[1].at < b[1].at ? 1 : -1)).slice(0, max);
+  await env.FCANEWS_KV.put(key, JSON.stringify(Object.fromEntries(entries)));
+}
+
+async function rememberFeedbackItems(env: Env, clusters: ArticleCluster[]): Promise<void> {
+  const pending = await loadFeedbackMap<FeedbackItem>(env, KV_FEEDBACK_PENDING);
+  const at = new Date().toISOString();
+  for (const c of clusters) {
+    pending[feedbackId(c)] = { titles: c.articles.map(a => a.title), links: c.articles.map(a => a.link), at };
+  }
+  await saveFeedbackMap(env, KV_FEEDBACK_PENDING, pending, FEEDBACK_PENDING_MAX);
+}
+
+function trainFeedbackModel(entries: FeedbackEntry[]): FeedbackModel {
+  const model: FeedbackModel = { docs: { relevant: 0, irrelevant: 0 }, tokens: {} };
+  for (const e of entries) {
+    model.docs[e.label]++;
+    for (const tok of feedbackTokens(e.titles)) {
+      (model.tokens[tok] ??= { relevant: 0, irrelevant: 0 })[e.label]++;
+    }
+  }
+  return model;
+}
+
+async function loadFeedbackModel(env: Env): Promise<FeedbackModel> {
+  return trainFeedbackModel(Object.values(await loadFeedbackMap<FeedbackEntry>(env, KV_FEEDBACK_LABELS)));
+}
+
+const modelReady = (m: FeedbackModel) =>
+  m.docs.relevant >= FEEDBACK_MIN_PER_CLASS && m.docs.irrelevant >= FEEDBACK_MIN_PER_CLASS;
+
+// P(관련 | 제목) — 학습에 나온 토큰만 사용 (라플라스 보정). 라벨이 모자라면 null
+function relevanceProbability(model: FeedbackModel, title: string): number | null {
+  if (!modelReady(model)) return null;
+  const { relevant: nr, irrelevant: ni } = model.docs;
+  let logOdds = Math.log(nr / ni);
+  for (const tok of feedbackTokens([title])) {
+    const c = model.tokens[tok];
+    if (!c) continue;
+    logOdds += Math.log((c.relevant + 1) / (nr + 2)) - Math.log((c.irrelevant + 1) / (ni + 2));
+  }
+  return 1 / (1 + Math.exp(-logOdds));
+}
+
+// 무관 예시에만(거의) 나오는 토큰 → 제외 규칙 후보
+//   포함/검색 규칙·팀 이름 토큰(조사 붙은 형태 포함)과 이미 제외 규칙에 걸리는 토큰은 뺀다
+function suggestExcludeTerms(model: FeedbackModel, cfg: AppConfig, max = 10): ExcludeSuggestion[] {
+  const protectedToks = new Set(
+    [...cfg.include_keywords, ...cfg.search_keywords, ...cfg.match_day.team_names].flatMap(tokenizeTitleForCluster)
+  );
+  const isProtected = (tok: string) =>
+    protectedToks.has(tok) || KO_PARTICLES.some(p => tok.endsWith(p) && protectedToks.has(tok.slice(0, -p.length)));
+  const excludeRules = compileRules(cfg.exclude_keywords, "both");
+
+  return Object.entries(model.tokens)
+    .filter(([tok, c]) =>
+      c.irrelevant >= SUGGEST_MIN_EVIDENCE &&
+      c.irrelevant / (c.irrelevant + c.relevant) >= SUGGEST_MIN_PRECISION &&
+      !isProtected(tok) &&
+      !findMatchingRule(excludeRules, tok, tok))
+    .map(([term, c]) => ({ term, irrelevant: c.irrelevant, relevant: c.relevant }))
+    .sort((a, b) => b.irrelevant - a.irrelevant || a.relevant - b.relevant || a.term.localeCompare(b.term))
+    .slice(0, max);
+}
+
+// 자동 보류 (auto_hold_below > 0 이고 라벨이 충분할 때만): 관련 확률이 기준 미만인 기사는 다이제스트에서 뺌
+async function applyAutoHold(env: Env, cfg: AppConfig, items: ArticleItem[]) {
+  const held: Array<{ item: ArticleItem; p: number }> = [];
+  if (cfg.auto_hold_below <= 0 || !items.length) return { kept: items, held };
+  const model = await loadFeedbackModel(env);
+  const kept = items.filter(item => {
+    const p = relevanceProbability(model, item.title);
+    if (p === null || p >= cfg.auto_hold_below) return true;
+    held.push({ item, p });
+    return false;
+  });
+  return { kept, held };
+}
+
+function buildAutoHoldLines(held: Array<{ item: ArticleItem; p: number }>, max = 5): string[] {
+  if (!held.length) return [];
+  const lines = [`🤖 자동 보류 ${held.length}건 (관련 확률 낮음)`];
+  for (const { item, p } of held.slice(0, max)) {
+    const t = item.title.length > 40 ? item.title.slice(0, 40) + "…" : item.title;
+    lines.push(`• ${escapeHtml(t)} <i>(${Math.round(p * 100)}%)</i>`);
+  }
+  if (held.length > max) lines.push(`  … 외 ${held.length - max}건`);
+  return lines;
+}
+
+// 미리보기 발송: 메시지마다 그 안에 든 클러스터 번호별 "관련/무관" 버튼
+async function sendFeedbackPreview(env: Env, clusters: ArticleCluster[], head: string[], opts: ClusterOptions) {
+  const blocks = buildClusteredArticleBlocks(clusters, opts);
+  const offset = head.length ? 1 : 0;
+  const parts = paginateBlockParts(head.length ? [head, ...blocks] : blocks);
+  for (const part of parts) {
+    const rows = part.blocks.filter(b => b >= offset).map(b => {
+      const n = b - offset + 1;
+      const id = feedbackId(clusters[n - 1]);
+      return [
+        { text: `${n} 👍 관련`, callback_data: `fb:r:${id}` },
+        { text: `${n} 👎 무관`, callback_data: `fb:i:${id}` },
+      ];
+    });
+    await sendTelegram(part.text, env.ADMIN_CHAT_ID, env, rows.length ? { reply_markup: { inline_keyboard: rows } } : {});
+  }
+  if (clusters.length) await rememberFeedbackItems(env, clusters);
+}
+
+function buildSuggestionMessage(model: FeedbackModel, suggestions: ExcludeSuggestion[]) {
+  const lines = [
+    `🧠 <b>제외 규칙 후보</b> (라벨 관련 ${model.docs.relevant} / 무관 ${model.docs.irrelevant})`,
+  ];
+  if (!suggestions.length) lines.push(`후보 없음 — 무관 라벨이 ${SUGGEST_MIN_EVIDENCE}건 이상 겹치는 단어가 아직 없습니다`);
+  for (const s of suggestions) lines.push(`• <code>${escapeHtml(s.term)}</code> — 무관 ${s.irrelevant} / 관련 ${s.relevant}`);
+  const buttons = suggestions
+    .map(s => ({ text: `➕ ${s.term}`, callback_data: `fb:x:${s.term}` }))
+    .filter(b => new TextEncoder().encode(b.callback_data).length <= TG_CALLBACK_DATA_MAX);
+  const rows: Array<typeof buttons> = [];
+  for (let i = 0; i < buttons.length; i += 3) rows.push(buttons.slice(i, i + 3));
+  return { text: lines.join("\n"), extra: rows.length ? { reply_markup: { inline_keyboard: rows } } : {} };
+}
+
+async function answerCallback(env: Env, callbackId: string, text: string): Promise<void> {
+  const res = await fetch(`https://api.telegram.org/bot${env.TELEGRAM_BOT_TOKEN}/answerCallbackQuery`, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ callback_query_id: callbackId, text }),
+  }).catch(e => { console.error("answerCallbackQuery error", e); return null; });
+  if (res && !res.ok) console.error("answerCallbackQuery failed", res.status);
+}
+
+// 버튼을 누른 사람이 관리자인지 (그룹 관리자 채팅이면 ADMIN_USER_IDS 필요)
+function isAdminUser(userId: unknown, env: Env): boolean {
+  const allowed = parseListText(env.ADMIN_USER_IDS);
+  if (!allowed.length) allowed.push(String(env.ADMIN_CHAT_ID));
+  return userId !== undefined && userId !== null && allowed.includes(String(userId));
+}
+
+// 관리자 채팅 버튼: fb:r|i:<클러스터 id> 라벨 기록, fb:x:<단어> 제외 규칙 추가 (현재 제안 목록에 있는 단어만)
+async function handleFeedbackCallback(cq: any, env: Env): Promise<void> {
+  const data = String(cq?.data ?? "");
+  const m = data.match(/^fb:([rix]):(.+)$/);
+  if (!m) return answerCallback(env, cq.id, "알 수 없는 버튼");
+  if (!isAdminUser(cq?.from?.id, env)) return answerCallback(env, cq.id, "관리자만 누를 수 있습니다");
+
+  if (m[1] === "x") {
+    const term = m[2];
+    const before = await loadConfig(env);
+    const suggested = suggestExcludeTerms(await loadFeedbackModel(env), before).map(s => s.term);
+    if (!suggested.includes(term)) {
+      return answerCallback(env, cq.id, `현재 제안 목록에 없는 단어입니다: ${term} (/suggest로 다시)`);
+    }
+    const after: AppConfig = { ...before, exclude_keywords: applyListEdit(before.exclude_keywords, [term]) };
+    if (after.exclude_keywords.length === before.exclude_keywords.length) {
+      return answerCallback(env, cq.id, `이미 제외 규칙에 있음: ${term}`);
+    }
+    const issues = validateConfigEdit(before, after);
+    if (issues.length) {
+      await answerCallback(env, cq.id, "설정 검증 실패");
+      await sendTelegram(fmtConfigIssues(issues), env.ADMIN_CHAT_ID, env);
+      return;
+    }
+    const meta = await saveConfig(env, after, "feedback suggestion");
+    await answerCallback(env, cq.id, `제외 규칙 추가: ${term}`);
+    await sendTelegram([`🛠 제외 후보 적용 (v${meta.version})`, ...buildConfigDiff(before, after)].join("\n"), env.ADMIN_CHAT_ID, env);
+    return;
+  }
+
+  const id = m[2];
+  const pending = await loadFeedbackMap<FeedbackItem>(env, KV_FEEDBACK_PENDING);
+  const labels = await loadFeedbackMap<FeedbackEntry>(env, KV_FEEDBACK_LABELS);
+  const item = pending[id] ?? labels[id];
+  if (!item) return answerCallback(env, cq.id, "만료된 미리보기입니다 (/preview로 다시)");
+
+  const label: FeedbackLabel = m[1] === "r" ? "relevant" : "irrelevant";
+  labels[id] = { titles: item.titles, links: item.links, label, at: new Date().toISOString() };
+  await saveFeedbackMap(env, KV_FEEDBACK_LABELS, labels, FEEDBACK_MAX);
+
+  const counts = Object.values(labels).reduce((c, e) => (c[e.label]++, c), { relevant: 0, irrelevant: 0 });
+  const t = item.titles[0] ?? "";
+  await answerCallback(
+    env,
+    cq.id,
+    `${label === "relevant" ? "관련" : "무관"}: ${t.length > 30 ? t.slice(0, 30) + "…" : t} (관련 ${counts.relevant} / 무관 ${counts.irrelevant})`
+  );
+}
+
+// GET /feedback: 라벨 현황 + 제외 후보 (JSON)
+async function handleFeedback(env: Env): Promise<Response> {
+  const cfg = await loadConfig(env);
+  const model = await loadFeedbackModel(env);
+  return jsonResponse({
+    labels: model.docs,
+    vocabulary: Object.keys(model.tokens).length,
+    classifier_ready: modelReady(model),
+    auto_hold_below: cfg.auto_hold_below,
+    suggestions: suggestExcludeTerms(model, cfg, 30),
+  });
+}
+
+/* ───────────────────────── Telegram bot commands ───────────────────────── */
+// 관리자 채팅(ADMIN_CHAT_ID)에서만 동작하는 설정 명령어
+const BOT_HELP = [
+  "<b>명령어</b>",
+  "/include 규칙[,규칙…] — 포함 규칙 추가 (앞에 - 붙이면 삭제)",
+  "/exclude 규칙[,규칙…] — 제외 규칙 추가 (앞에 - 붙이면 삭제)",
+  "  예) 안양 AND (축구 OR 경기), =김강, /유병훈\\s?감독/, desc: 시의회",
+  "/priority 규칙[,규칙…] — 즉시 속보 규칙 추가 (앞에 - 붙이면 삭제)",
+  "/threshold N — 강제시간 외 발송 최소 건수",
+  "/force 8,12,18 — 강제 발송 시간대(schedule.timezone 기준, 기본 KST)",
+  "/config — 현재 설정 보기",
+  "/preview — 지금 기준 미리보기 (기사별 관련/무관 버튼)",
+  "/suggest — 관련/무관 라벨로 학습한 제외 규칙 후보",
+  "/link /경로 — 1시간짜리 관리자 서명 링크",
+  "(개인 채팅) /follow, /unfollow, /mylist — 선수 팔로우 DM",
+].join("\n");
+
+// 리스트 추가/삭제: "-단어"는 삭제, 나머지는 추가 (중복 무시)
+function applyListEdit(current: string[], args: string[]): string[] {
+  const next = [...current];
+  for (const a of args) {
+    if (a.startsWith("-")) {
+      const key = norm(a.slice(1));
+      const i = next.findIndex(k => norm(k) === key);
+      if (i >= 0) next.splice(i, 1);
+    } else if (!next.some(k => norm(k) === norm(a))) {
+      next.push(a);
+    }
+  }
+  return next;
+}
+
+// 변경 전/후 비교 라인 (텔레그램 HTML)
+function buildConfigDiff(before: AppConfig, after: AppConfig): string[] {
+  const lines: string[] = [];
+  for (const key of Object.keys(after) as Array<keyof AppConfig>) {
+    const a = before[key];
+    const b = after[key];
+    if (Array.isArray(a) && Array.isArray(b)) {
+      const added = b.filter(x => !a.includes(x as never));
+      const removed = a.filter(x => !b.includes(x as never));
+      if (!added.length && !removed.length) continue;
+      lines.push(`<b>${key}</b>`);
+      if (added.length) lines.push(`  + ${escapeHtml(added.join(", "))}`);
+      if (removed.length) lines.push(`  - ${escapeHtml(removed.join(", "))}`);
+    } else if (JSON.stringify(a) !== JSON.stringify(b)) {
+      const fmt = (v: unknown) => escapeHtml(typeof v === "object" ? JSON.stringify(v) : String(v));
+      lines.push(`<b>${key}</b>: ${fmt(a)} → ${fmt(b)}`);
+    }
+  }
+  return lines.length ? lines : ["변경 사항 없음"];
+}
+
+function formatConfig(cfg: AppConfig): string {
+  return [
+    "<b>현재 설정</b>",
+    `search: ${escapeHtml(cfg.search_keywords.join(", "))}`,
+    `include(${cfg.include_keywords.length}): ${escapeHtml(cfg.include_keywords.join(", "))}`,
+    `exclude(${cfg.exclude_keywords.length}): ${escapeHtml(cfg.exclude_keywords.join(", "))}`,
+    `priority(${cfg.priority_keywords.length}): ${escapeHtml(cfg.priority_keywords.join(", "))}`,
+    `display/loops: ${cfg.display_per_call} × ${cfg.max_loops}`,
+    `threshold: ${cfg.min_send_threshold}`,
+    `force_hours: ${cfg.force_hours.join(",")}`,
+    `cluster: ≥${cfg.cluster_threshold} (말머리 ${escapeHtml(cfg.cluster_stop_prefixes.join(","))})`,
+    `scoring: min ${cfg.scoring.min_score} / max ${cfg.scoring.max_clusters || "∞"} / alert ${cfg.scoring.alert_score || "off"}`,
+    `schedule: ${escapeHtml(cfg.schedule.timezone)}${cfg.schedule.quiet_hours ? ` / 조용 ${cfg.schedule.quiet_hours.start}~${cfg.schedule.quiet_hours.end}시` : ""} / 창 ${cfg.schedule.windows.length}개`,
+    `feed: 최근 ${cfg.feed_size}건`,
+    `auto_hold: ${cfg.auto_hold_below > 0 ? `관련 확률 ${Math.round(cfg.auto_hold_below * 100)}% 미만 보류` : "off"}`,
+    `destinations: ${escapeHtml(cfg.destinations.map(d => `${d.name}(${d.type})`).join(", "))}`,
+    `links: ${cfg.links.prefer === "original" ? "원문" : "네이버"}${cfg.links.allow_domains.length ? ` / 허용 ${escapeHtml(cfg.links.allow_domains.join(", "))}` : ""}${cfg.links.block_domains.length ? ` / 차단 ${escapeHtml(cfg.links.block_domains.join(", "))}` : ""}`,
+    `threading: ${cfg.threading.mode === "off" ? "off" : `${cfg.threading.mode === "reply" ? "답장" : "수정"} / ${cfg.threading.window_hours}시간`}`,
+    `match_day: ${cfg.match_day.enabled ? `킥오프 -${cfg.match_day.hours_before}h ~ +${cfg.match_day.hours_after}h / 기준 ${cfg.match_day.min_send}건` : "off"}`,
+    `recap: 일간 ${cfg.recap.daily_hour < 0 ? "off" : `${cfg.recap.daily_hour}시`} / 주간 ${cfg.recap.weekly_weekday < 0 ? "off" : `${"일월화수목금토"[cfg.recap.weekly_weekday]} ${cfg.recap.weekly_hour}시`}`,
+    `sources: ${escapeHtml(cfg.sources.map(src => src.type === "rss" ? `rss(${src.name})` : src.type).join(", "))}`,
+  ].join("\n");
+}
+
+// 봇/버튼 편집도 PUT /config와 같은 규칙으로 검증 (바뀐 키만) — 저장은 됐는데 불러올 때 버려지는 값을 막음
+function validateConfigEdit(before: AppConfig, after: AppConfig): ConfigIssue[] {
+  const changed = Object.fromEntries(
+    Object.entries(after).filter(([k, v]) => JSON.stringify(v) !== JSON.stringify(before[k as keyof AppConfig]))
+  );
+  return validateConfigPatch(changed);
+}
+
+const fmtConfigIssues = (issues: ConfigIssue[]) =>
+  ["⚠️ 적용하지 않음", ...issues.map(i => `• ${escapeHtml(i.path || "(root)")}: ${escapeHtml(i.message)}`)].join("\n");
+
+async function handleBotCommand(text: string, env: Env, origin: string): Promise<void> {
+  const m = text.trim().match(/^\/(\w+)(?:@\w+)?\s*([\s\S]*)$/);
+  if (!m) return;
+  const cmd = m[1].toLowerCase();
+  const args = parseListText(m[2]);
+  const reply = async (msg: string) => { await sendTelegram(msg, env.ADMIN_CHAT_ID, env); };
+
+  const before = await loadConfig(env);
+  const after: AppConfig = { ...before };
+
+  switch (cmd) {
+    case "include":
+    case "exclude":
+    case "priority": {
+      if (!args.length) return reply(`사용법: /${cmd} 단어[,단어…]`);
+      const key = `${cmd}_keywords` as "include_keywords" | "exclude_keywords" | "priority_keywords";
+      for (const a of args.filter(a => !a.startsWith("-"))) {
+        try {
+          parseKeywordRule(a, cmd === "exclude" ? "both" : "title");
+        } catch (e: any) {
+          return reply(`규칙 오류: <code>${escapeHtml(a)}</code>\n${escapeHtml(String(e?.message || e))}`);
+        }
+      }
+      after[key] = applyListEdit(before[key], args);
+      break;
+    }
+    case "threshold": {
+      const v = Number(args[0]);
+      if (!Number.isFinite(v)) return reply("사용법: /threshold N");
+      after.min_send_threshold = parseNumber(v, before.min_send_threshold, 0, 100);
+      break;
+    }
+    case "force": {
+      const hours = args.map(Number);
+      if (!hours.length || hours.some(h => !Number.isInteger(h) || h < 0 || h > 23)) {
+        return reply("사용법: /force 8,12,18 (0~23)");
+      }
+      after.force_hours = [...new Set(hours)].sort((a, b) => a - b);
+      break;
+    }
+    case "config":
+      return reply(formatConfig(before));
+    case "preview":
+      await handleTestPreview(env);
+      return;
+    case "suggest": {
+      const model = await loadFeedbackModel(env);
+      const msg = buildSuggestionMessage(model, suggestExcludeTerms(model, before));
+      await sendTelegram(msg.text, env.ADMIN_CHAT_ID, env, msg.extra);
+      return;
+    }
+    case "link": {
+      const path = (args[0] || "").toLowerCase();
+      if (!ADMIN_PATHS.has(path)) return reply(`사용법: /link ${[...ADMIN_PATHS].join(" | ")}`);
+      if (!linkSecret(env)) return reply("ADMIN_TOKEN / ADMIN_LINK_SECRET 미설정");
+      return reply(escapeHtml(origin + await signAdminPath(env, path)));
+    }
+    default:
+      return reply(BOT_HELP);
+  }
+
+  const issues = validateConfigEdit(before, after);
+  if (issues.length) return reply(fmtConfigIssues(issues));
+  const meta = await saveConfig(env, after, `bot /${cmd}`);
+  await reply([`🛠 /${cmd} 적용 (v${meta.version})`, ...buildConfigDiff(before, after)].join("\n"));
+}
+
+const WEBHOOK_RATE_LIMIT = 120; // IP당 분당 업데이트 수 (텔레그램은 429면 나중에 다시 보냄)
+
+// Telegram webhook 업데이트 처리 (관리자 채팅 외 메시지는 무시)
+//   secret_token 필수: 없으면 누구나 관리자 채팅 업데이트를 위조할 수 있으므로 라우트 전체를 막는다
+async function handleTelegramWebhook(req: Request, env: Env): Promise<Response> {
+  const ip = req.headers.get("CF-Connecting-IP") || "unknown";
+  const rl = await checkRateLimit(env, `tg:${ip}`, WEBHOOK_RATE_LIMIT);
+  if (!rl.ok) {
+    return new Response("too many requests", { status: 429, headers: { "Retry-After": String(rl.retryAfter) } });
+  }
+  const secret = env.TELEGRAM_WEBHOOK_SECRET;
+  if (!secret || !safeEqual(req.headers.get("X-Telegram-Bot-Api-Secret-Token") ?? "", secret)) {
+    if (!secret) console.error("TELEGRAM_WEBHOOK_SECRET not configured — /telegram disabled");
+    return new Response("forbidden", { status: 403 });
+  }
+
+  let update: any;
+  try {
+    update = await req.json();
+  } catch {
+    return new Response("bad request", { status: 400 });
+  }
+
+  // 인라인 버튼 (관리자 채팅의 미리보기/제외 후보)
+  const cq = update?.callback_query;
+  if (cq) {
+    if (String(cq.message?.chat?.id ?? "") === String(env.ADMIN_CHAT_ID)) {
+      try {
+        await handleFeedbackCallback(cq, env);
+      } catch (e) {
+        console.error("feedback callback failed", e);
+      }
+    }
+    return new Response("ok", { status: 200 });
+  }
+
+  const msg = update?.message ?? update?.edited_message;
+  const chatId = String(msg?.chat?.id ?? "");
+  const text = String(msg?.text ?? "");
+
+  // 개인 채팅: 누구나 선수 팔로우 명령 사용 가능
+  if (msg?.chat?.type === "private" && text.startsWith("/")) {
+    try {
+      if (await handleUserCommand(text, chatId, env)) return new Response("ok", { status: 200 });
+    } catch (e) {
+      console.error("user command failed", chatId, e);
+      return new Response("ok", { status: 200 });
+    }
+  }
+
+  if (chatId === String(env.ADMIN_CHAT_ID) && text.startsWith("/")) {
+    try {
+      await handleBotCommand(text, env, new URL(req.url).origin);
+    } catch (e: any) {
+      await sendTelegram(`❗️ 명령 처리 실패\n${escapeHtml(String(e?.message || e))}`, env.ADMIN_CHAT_ID, env);
+    }
+  }
+
+  // 텔레그램은 200이 아니면 같은 업데이트를 재전송하므로 항상 200
+  return new Response("ok", { status: 200 });
+}
+
+/* ───────────────────────── Worker ───────────────────────── */
+export default {
+  async fetch(req: Request, env: Env): Promise<Response> {
+    const url = new URL(req.url);
+
+    if (url.pathname === "/telegram" && req.method === "POST") {
+      return await handleTelegramWebhook(req, env);
+    }
+
+    // 공개 피드 (인증 없음)
+    if ((url.pathname === "/feed.xml" || url.pathname === "/feed.json") && req.method === "GET") {
+      return await handleFeed(req, url, env);
+    }
+
+    // 관리자 라우트: 인증 + IP별 요청 제한
+    const path = url.pathname.toLowerCase();
+    if (ADMIN_PATHS.has(path)) {
+      const denied = await guardAdmin(req, url, env);
+      if (denied) return denied;
+    }
+
+    // 설정/시크릿 스냅샷 (/env)
+    if (path === "/env") {
+      const snap = buildEnvSnapshot(env);
+
+      // (선택) ?kv=1 이면 KV의 개별 텍스트 키 힌트 포함
+      if (url.searchParams.get("kv") === "1") {
+        const [kvSearch, kvInclude, kvExclude, kvForce] = await Promise.all([
+          env.FCANEWS_KV.get("SEARCH_KEYWORDS"),
+          env.FCANEWS_KV.get("INCLUDE_KEYWORDS"),
+          env.FCANEWS_KV.get("EXCLUDE_KEYWORDS"),
+          env.FCANEWS_KV.get("FORCE_HOURS"),
+        ]);
+        (snap as any).kv_hints = {
+          SEARCH_KEYWORDS: kvSearch ?? null,
+          INCLUDE_KEYWORDS: kvInclude ?? null,
+          EXCLUDE_KEYWORDS: kvExclude ?? null,
+          FORCE_HOURS: kvForce ?? null,
+        };
+      }
+
+      return jsonResponse(snap);
+    }
+
+    if (path === "/test") {
+      return await handleTestPreview(env); // 관리자 미리보기
+    }
+
+    if (path === "/config") {
+      if (req.method === "GET") return await handleConfigGet(env);
+      if (req.method === "PUT") return await handleConfigPut(req, url, env);
+      return jsonError(405, "method_not_allowed", "use GET or PUT");
+    }
+    if (path === "/stats" || path === "/stats.html") {
+      return await handleStats(url, env);
+    }
+    if (path === "/fixtures") {
+      return await handleFixtures(req, env);
+    }
+    if (path === "/replay") {
+      return await handleReplay(req, url, env);
+    }
+    if (path === "/feedback") {
+      return await handleFeedback(env);
+    }
+    if (path === "/config/history") {
+      return await handleConfigHistory(env);
+    }
+    if (path === "/config/rollback") {
+      if (req.method !== "POST") return jsonError(405, "method_not_allowed", "use POST");
+      return await handleConfigRollback(url, env);
+    }
+
+    // 헬스체크/루트 (NEXT: 마지막 실행의 cron 기준, 아직 실행 전이면 KST 짝수시 가정)
     const now = new Date();
-    const { targetKST, targetUTC } = computeTargetKST(now);
+    const cron = await env.FCANEWS_KV.get(KV_LAST_CRON);
+    const nextUTC = (cron && nextCronTime(cron, now)) || computeTargetKST(now).targetUTC;
     return new Response(
-      `${env.APP_NAME ?? "fca-news"} OK\nNOW UTC: ${fmtUTC(now)}\nNEXT KST: ${fmtUTC(targetKST)}\nNEXT UTC: ${fmtUTC(targetUTC)}\n`,
+      `${env.APP_NAME ?? "fca-news"} OK\nNOW UTC: ${fmtUTC(now)}\nNEXT KST: ${fmtUTC(toKST(nextUTC))}\nNEXT UTC: ${fmtUTC(nextUTC)}\n`,
       { status: 200 }
     );
   },
 
   async scheduled(event: ScheduledEvent, env: Env): Promise<void> {
+    const startedAt = new Date(event.scheduledTime).toISOString();
     try {
-      const { cfg, collected, loopReports, latestStr, earliestStr, latestUTC } = await searchRecentNews(env);
+      // 지난 회차에 전달하지 못한 메시지부터 처리
+      const outbox = await drainOutbox(env);
+      const hookOutbox = await drainHookOutbox(env);
 
+      // 킥오프 전후면 매치데이 프로필로 수집/판단
       const nowUTC = new Date(event.scheduledTime);
-      const nowKST = toKST(nowUTC);
+      const run = await loadRunConfig(env, nowUTC, event.cron);
+      const cfgWarnings = run.warnings;
+      const {
+        cfg, collected, loopReports, rejections, sourceErrors,
+        latestStr, earliestStr, latestUTC, seenStore, seenMarks, gaps, gapCursors, naverPool, recording,
+      } = await searchRecentNews(env, run.cfg);
+      // 누락 구간이 남아 있으면 워터마크를 그대로 둠 (다음 회차 보충이 끝난 뒤에 이동)
+      const holdWatermark = Object.keys(gapCursors).length > 0;
 
-      const { targetUTC } = computeTargetKST(nowUTC);
-      const targetIso = targetUTC.toISOString();
+      if (event.cron) await env.FCANEWS_KV.put(KV_LAST_CRON, event.cron);
+
+      // 같은 cron 회차가 재실행된 경우만 건너뜀 (cron 주기와 무관)
+      const slotIso = slotIdOf(event.scheduledTime);
       const lastSent = await env.FCANEWS_KV.get(KV_LAST_SENT);
-      if (lastSent === targetIso) {
-        console.log("SKIP: already sent", targetIso);
+      if (lastSent === slotIso) {
+        console.log("SKIP: already sent", slotIso);
+        await recordRun(env, {
+          at: startedAt, status: "skipped", candidates: collected.length, digest_articles: 0, clusters: 0,
+          top_score: 0, evaluated: 0, exclude_hits: {}, loops: [], source_errors: [],
+        });
         return;
       }
 
-      const shouldSend = computeShouldSend(
-        nowKST,
-        collected.length,
-        cfg.min_send_threshold,
-        cfg.force_hours
-      );
+      // 원본 응답 녹화 (/replay로 설정 비교)
+      if (recording) {
+        await saveReplayBundle(env, slotIso, recording).catch(e => console.error("saveReplayBundle failed", e));
+      }
+
+      // 속보 규칙에 걸린 기사는 발송 조건과 무관하게 바로 별도 발송 (정규 다이제스트에서는 제외)
+      const notifiers = buildNotifiers(cfg, env);
+      const priority = splitPriorityAlerts(collected, cfg);
+      const alertResults: DestinationResult[][] = [];
+      for (const alert of priority.alerts) {
+        alertResults.push(await sendAlertAll(notifiers, alert));
+      }
+      const sentAlerts = priority.alerts.filter((_, i) => primaryDelivered(alertResults[i]));
+      const alertArticles = sentAlerts.flatMap(a => a.cluster.articles);
+
+      // 분류기 자동 보류(설정 시) → 묶기 + 점수 순위 → 다이제스트에 실을 클러스터
+      const hold = await applyAutoHold(env, cfg, priority.rest);
+      const digest = selectDigestClusters(hold.kept, cfg, nowUTC);
+
+      const decision = evaluateSchedule(nowUTC, cfg, digest.articles.length, digest.topScore);
+      const shouldSend = decision.send;
 
       // 실제 발송 여부 플래그 (발송 조건 + 기사 1건 이상)
-      const hadRealSend = shouldSend && collected.length > 0;
+      const hadRealSend = shouldSend && digest.articles.length > 0;
 
-      // ★ 본채널 실제 발송 (기사들을 제목 유사도로 클러스터링해서 발송)
+      // ★ 전달처별 실제 발송 (기사들을 제목 유사도로 클러스터링해서 발송)
+      //    회차 정각 마킹 + 기사 기준 시간은 주 전달처 전달이 확인된 뒤에만 반영 (재시도 가능한 실패는 outbox가 들고 감)
+      let digestDeliveries: DestinationResult[] = [];
       if (hadRealSend) {
-        const articleLines = buildClusteredArticleLines(collected);
-        const body = articleLines.join("\n");
-        await sendTelegram(body, env.TELEGRAM_CHAT_ID, env);
-
-        // 발송된 회차의 정각 마킹
-        await env.FCANEWS_KV.put(KV_LAST_SENT, targetIso);
-        // 이 경우에는 기사 기준 시간도 함께 업데이트
-        if (latestUTC)
-          await env.FCANEWS_KV.put(KV_LAST_CHECKED, latestUTC.toISOString());
+        const heading = run.fixture ? fmtFixtureLabel(run.fixture, cfg.schedule.timezone) : undefined;
+        digestDeliveries = await sendDigestAll(notifiers, { clusters: digest.clusters, heading, opts: clusterOptionsFrom(cfg), threaded: true }, {
+          lastSent: slotIso,
+          lastChecked: holdWatermark ? undefined : latestUTC?.toISOString(),
+        });
       }
 
+      // 주 전달처가 실패(보관도 안 됨)했으면 sent로 남기지 않음 → 다음 회차에 다시 후보가 됨
+      const digestSent = hadRealSend && primaryDelivered(digestDeliveries);
+
+      // 발송 기사 보관 (일간/주간 요약용) → 요약 시각이면 요약 발송
+      const deliveredArticles = [...alertArticles, ...(digestSent ? digest.articles : [])];
+      if (deliveredArticles.length) await recordDelivered(env, deliveredArticles, nowUTC, cfg.schedule.timezone);
+      await recordFeed(
+        env,
+        [...sentAlerts.map(a => a.cluster), ...(digestSent ? digest.clusters : [])],
+        nowUTC,
+        cfg.feed_size
+      );
+      const recaps = await runRecaps(env, cfg, nowUTC, notifiers);
+
       // 집계값 계산 (관리자 리포트 + 추가 로직에서 공통 사용)
       const totalLatest = loopReports.reduce(
         (s, r) => s + (r.time_filtered || 0),
@@ -693,31 +4779,116 @@ export default {
 
       // ★ [신규] 발송은 없었지만, 이번 회차에 새 기사(latestUTC)는 있었고 최종 발송 후보는 0건인 경우
       //     → 관심 없는 기사들만 있었던 구간이므로 latestUTC까지는 "본 것"으로 처리
-      if (!hadRealSend && latestUTC && collected.length === 0) {
+      if (!hadRealSend && latestUTC && collected.length === 0 && !holdWatermark) {
         await env.FCANEWS_KV.put(KV_LAST_CHECKED, latestUTC.toISOString());
       }
 
-      const icon = hadRealSend ? "✅" : "⏸️";
-      const status = hadRealSend ? "발송" : "보류";
+      // seen-set 갱신: 발송된 기사는 sent, 나머지(보류/필터 탈락)는 seen
+      //   (outbox에 보관된 경우도 sent — 재전송이 보장되므로 다음 회차에 중복 발송하지 않음)
+      const sentLinks = new Set(deliveredArticles.map(it => it.link));
+      await saveGapCursors(env, gapCursors);
+      await saveSeen(
+        env,
+        seenStore,
+        seenMarks.map(m => ({ keys: m.keys, state: sentLinks.has(m.link) ? "sent" : "seen" })),
+        cfg.seen_ttl_hours
+      );
+
+      // 팔로우 DM은 seen-set 저장 뒤에 (사용자 수만큼 요청이 늘어나 실패해도 중복 발송으로 번지지 않게)
+      let follow = { users: 0, failed: 0, removed: 0, deferred: 0, dropped: 0 };
+      let followError: string | null = null;
+      try {
+        follow = await sendFollowDigests(
+          env,
+          cfg,
+          [...sentAlerts.map(a => a.cluster), ...(digestSent ? digest.clusters : [])]
+        );
+      } catch (e: any) {
+        followError = String(e?.message || e);
+        console.error("follow digests failed", e);
+      }
+
+      // 회차 상태: 한 곳이라도 실제로 받았으면 sent, 발송했는데 전부 실패(outbox 보관만 포함)면 failed
+      const digestDelivered = digestDeliveries.some(d => d.result.ok || d.result.delivered > 0);
+      const runStatus = !hadRealSend ? "held" : digestDelivered ? "sent" : "failed";
+      const [icon, status] =
+        runStatus === "sent" ? ["✅", "발송"] : runStatus === "failed" ? ["⚠️", "발송 실패"] : ["⏸️", "보류"];
 
       // 1행 포맷: (HH:MM:SS 기준) 
-      const timeLabel = fmtKSTClockLabel(nowUTC);
+      const timeLabel = fmtClockLabel(nowUTC, cfg.schedule.timezone);
       const lines: string[] = [];
       lines.push(
-        `${icon} ${status} [${collected.length}건] (${timeLabel} 기준)`
+        `${icon} ${status} [${collected.length}건] (${timeLabel} 기준) — ${escapeHtml(decision.reason)}`
       );
 
       // 2행: (-제외) 제목통과 ← 최신 | (제외)제목통과/최신  (제외가 0일 경우 마이너스 기호 생략)
       const exclLabel = totalExcl > 0 ? `(-${totalExcl})` : `(0)`;
       lines.push(`${exclLabel} ${totalPass} ← ${totalLatest} | (제외)제목통과/최신`);
 
-      // 루프별: (n차) 최신 ← 호출 | 최신/호출
-      for (const r of loopReports) {
-        lines.push(`(${r.call_no}차) ${r.time_filtered} ← ${r.fetched} | 최신/호출`);
-      }
+      // 쿼리/루프별: (n차) 최신 ← 호출 | 최신/호출
+      lines.push(...buildLoopReportLines(loopReports));
+      lines.push(...buildGapLines(gaps, cfg.schedule.timezone));
 
       lines.push(`(최신) ${latestStr} ~ ${earliestStr}`);
-      await sendTelegram(lines.join("\n"), env.ADMIN_CHAT_ID, env);
+      if (run.fixture) lines.push(escapeHtml(fmtFixtureLabel(run.fixture, cfg.schedule.timezone)));
+      lines.push(...buildAlertReportLines(priority.alerts, alertResults));
+      lines.push(fmtScoreSummary(digest));
+      lines.push(...buildRejectionLines(rejections));
+      lines.push(...buildAutoHoldLines(hold.held));
+      lines.push(...buildConfigWarningLines(cfgWarnings));
+      for (const e of sourceErrors) {
+        const detail = e.kind ? NAVER_ERROR_LABEL[e.kind] : e.status ? `HTTP ${e.status}` : e.error;
+        lines.push(`⚠️ 수집 오류 ${escapeHtml(e.source)} (${e.page}차): ${escapeHtml(detail)}`);
+      }
+      const naverUsage = await naverPool.snapshot();
+      if (Object.keys(naverUsage).length) lines.push(fmtNaverUsage(naverUsage, naverPool.creds));
+
+      // 전달 상태
+      lines.push(...buildDestinationLines("📨", digestDeliveries));
+      if (outbox.sent || outbox.remaining || outbox.dropped.length) {
+        const dropped = outbox.dropped.length ? `, ${outbox.dropped.length}건 폐기 (${escapeHtml(outbox.dropped[0])})` : "";
+        lines.push(`📮 outbox: ${outbox.sent}건 재전송, ${outbox.remaining}건 대기${dropped}`);
+      }
+      if (hookOutbox.sent || hookOutbox.remaining || hookOutbox.dropped.length) {
+        const dropped = hookOutbox.dropped.length ? `, ${hookOutbox.dropped.length}건 폐기 (${escapeHtml(hookOutbox.dropped[0])})` : "";
+        lines.push(`📮 웹훅 outbox: ${hookOutbox.sent}건 재전송, ${hookOutbox.remaining}건 대기${dropped}`);
+      }
+      if (follow.users || follow.failed || follow.deferred || follow.dropped) {
+        const deferred = follow.deferred ? `, 다음 회차로 ${follow.deferred}명 보관` : "";
+        const dropped = follow.dropped ? `, ${follow.dropped}건 폐기` : "";
+        lines.push(`⭐ 팔로우 DM ${follow.users}명${follow.failed ? ` (실패 ${follow.failed}, 구독 정리 ${follow.removed})` : ""}${deferred}${dropped}`);
+      }
+      if (followError) {
+        lines.push(`⚠️ 팔로우 DM 중단: ${escapeHtml(followError)}`);
+      }
+      for (const rc of recaps) {
+        lines.push(`📰 ${rc.kind === "daily" ? "일간" : "주간"} 요약 ${rc.label} (${rc.clusters}건)`);
+        lines.push(...buildDestinationLines("  ↳", rc.deliveries));
+      }
+      // 리포트도 길이 상한에 맞춰 분할 (한 메시지가 400으로 막히지 않도록)
+      await deliverAll(paginateBlocks([lines]), env.ADMIN_CHAT_ID, env);
+      await sendNaverErrorAlerts(env, naverPool.events);
+
+      // 회차 기록 (/stats)
+      const excludeHits: Record<string, number> = {};
+      for (const r of rejections) {
+        if (r.stage === "exclude" && r.rule) excludeHits[r.rule] = (excludeHits[r.rule] ?? 0) + 1;
+      }
+      await recordRun(env, {
+        at: startedAt,
+        status: runStatus,
+        candidates: collected.length,
+        digest_articles: digest.articles.length,
+        clusters: digest.clusters.length,
+        top_score: round2(digest.topScore),
+        evaluated: totalLatest,
+        exclude_hits: excludeHits,
+        loops: loopReports.map(({ query, call_no, fetched, time_filtered, title_include_fail, title_exclude_hit }) =>
+          ({ query, call_no, fetched, time_filtered, title_include_fail, title_exclude_hit })),
+        source_errors: sourceErrors.map(({ source, status, error, kind }) => ({ source, status, error, kind })),
+        delivery_ok: digestDeliveries.length ? digestDeliveries.every(d => d.result.ok) : undefined,
+        alerts: priority.alerts.length,
+      });
     } catch (e: any) {
       await sendTelegram(
         `❗️ fca-news error\n${String(e?.message || e)}`,
@@ -725,6 +4896,10 @@ export default {
         env
       );
       console.error(e);
+      await recordRun(env, {
+        at: startedAt, status: "error", candidates: 0, digest_articles: 0, clusters: 0, top_score: 0,
+        evaluated: 0, exclude_hits: {}, loops: [], source_errors: [], error: String(e?.message || e),
+      }).catch(err => console.error("recordRun failed", err));
     }
   },
 } satisfies ExportedHandler<Env>;
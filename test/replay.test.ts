@@ -0,0 +1,133 @@
+import { readFileSync } from "node:fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { diffReplay, mergeConfigPatch, replayRun, searchRecentNews, type Env, type ReplayBundle } from "../src/index";
+
+// 녹화본(test/fixtures/replay-bundle.json): FC안양/유병훈 두 쿼리, 워터마크 08:00Z, 0003번 기사는 이미 발송(sent)
+const loadBundle = (): ReplayBundle =>
+  JSON.parse(readFileSync(new URL("./fixtures/replay-bundle.json", import.meta.url), "utf8"));
+
+// 재생은 KV/네트워크를 쓰지 않아야 함 — 건드리면 바로 실패
+const offlineEnv = (): Env => {
+  const kv = new Proxy({}, { get: (_, prop) => () => { throw new Error(`KV.${String(prop)} called during replay`); } });
+  return { FCANEWS_KV: kv } as unknown as Env;
+};
+
+const articleId = (link: string) => link.split("/").pop();
+
+describe("searchRecentNews replay", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", () => { throw new Error("fetch called during replay"); });
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("reproduces the recorded run from the bundle alone", async () => {
+    const bundle = loadBundle();
+    const run = await searchRecentNews(offlineEnv(), bundle.cfg, bundle);
+
+    expect(run.collected.map(a => articleId(a.link))).toEqual(["0001", "0002", "0005", "0006", "0007", "0008"]);
+    expect(run.sourceErrors).toEqual([]);
+    expect(run.recording).toBeNull();
+    expect(run.loopReports.map(r => [r.query, r.call_no, r.fetched])).toEqual([
+      ["FC안양", 1, 5],
+      ["FC안양", 2, 2],
+      ["유병훈", 1, 2],
+    ]);
+  });
+
+  it("skips articles the recorded seen-set already marks as sent", async () => {
+    const bundle = loadBundle();
+    const run = await searchRecentNews(offlineEnv(), bundle.cfg, bundle);
+
+    expect(run.collected.some(a => articleId(a.link) === "0003")).toBe(false);
+    expect(run.loopReports[0].seen_count).toBe(1);
+  });
+
+  it("applies exclude rules and dedupes the same article across queries", async () => {
+    const bundle = loadBundle();
+    const run = await searchRecentNews(offlineEnv(), bundle.cfg, bundle);
+
+    expect(run.rejections).toEqual([
+      expect.objectContaining({ stage: "exclude", rule: "desc: 부동산", link: expect.stringContaining("0004") }),
+    ]);
+    expect(run.loopReports[2].dup_count).toBe(1);
+  });
+
+  it("does not mutate the bundle's seen-set", async () => {
+    const bundle = loadBundle();
+    const before = JSON.stringify(bundle.state.seen);
+    await searchRecentNews(offlineEnv(), bundle.cfg, bundle);
+
+    expect(JSON.stringify(bundle.state.seen)).toBe(before);
+  });
+
+  it("reports pages the recording does not contain", async () => {
+    const bundle = loadBundle();
+    const cfg = mergeConfigPatch(bundle.cfg, { late_grace_hours: 72 });
+    delete bundle.feeds[0].pages["2"];
+    const run = await searchRecentNews(offlineEnv(), cfg, bundle);
+
+    expect(run.sourceErrors).toEqual([expect.objectContaining({ source: "FC안양", page: 2, error: "녹화에 없는 page 2" })]);
+  });
+});
+
+describe("diffReplay", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", () => { throw new Error("fetch called during replay"); });
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("is empty when the candidate config equals the recorded one", async () => {
+    const bundle = loadBundle();
+    const base = await replayRun(offlineEnv(), bundle, bundle.cfg);
+    const next = await replayRun(offlineEnv(), bundle, mergeConfigPatch(bundle.cfg, {}));
+    const diff = diffReplay(base, next);
+
+    expect(diff.articles).toEqual({ added: [], removed: [] });
+    expect(diff.clusters.added).toEqual([]);
+    expect(diff.clusters.removed).toEqual([]);
+    expect(diff.decision.before).toEqual(diff.decision.after);
+  });
+
+  it("lists articles and clusters removed by a new exclude rule with the matching rule", async () => {
+    const bundle = loadBundle();
+    const base = await replayRun(offlineEnv(), bundle, bundle.cfg);
+    const next = await replayRun(
+      offlineEnv(),
+      bundle,
+      mergeConfigPatch(bundle.cfg, { exclude_keywords: [...bundle.cfg.exclude_keywords, "시의회"] })
+    );
+    const diff = diffReplay(base, next);
+
+    expect(diff.articles.added).toEqual([]);
+    expect(diff.articles.removed).toEqual([
+      { title: "안양시의회 예산 심사 돌입", link: expect.stringContaining("0007"), now: "exclude: 시의회" },
+    ]);
+    expect(diff.clusters.removed.map(c => c.title)).toEqual(["안양시의회 예산 심사 돌입"]);
+  });
+
+  it("reports articles let back in by a removed exclude rule with their previous rejection", async () => {
+    const bundle = loadBundle();
+    const base = await replayRun(offlineEnv(), bundle, bundle.cfg);
+    const next = await replayRun(offlineEnv(), bundle, mergeConfigPatch(bundle.cfg, { exclude_keywords: [] }));
+    const diff = diffReplay(base, next);
+
+    expect(diff.articles.added).toEqual([
+      { title: "안양 평촌 아파트 시세 하락", link: expect.stringContaining("0004"), was: "exclude: desc: 부동산" },
+    ]);
+  });
+
+  it("separates priority alerts from the digest and evaluates the schedule at the recorded time", async () => {
+    const bundle = loadBundle();
+    const base = await replayRun(offlineEnv(), bundle, bundle.cfg);
+    const next = await replayRun(offlineEnv(), bundle, mergeConfigPatch(bundle.cfg, { priority_keywords: [] }));
+    const diff = diffReplay(base, next);
+
+    expect(diff.alerts.before.map(a => a.rule)).toEqual(["오피셜"]);
+    expect(diff.alerts.after).toEqual([]);
+    expect(diff.decision.before.send).toBe(true); // 20시(KST) 강제 발송
+  });
+});